@@ -1,7 +1,13 @@
 // Access to the JSON Color API through TypeScript interfaces and types
 
-import { Color, ColorCollection, ColorFormatsCollection, } from './typescript-color-types/color-types-index';
-import { COLOR_CODE_FORMAT_STRING, COLOR_CODE_SYSTEM_NAME, COLOR_FAMILY } from './typescript-color-types/color-enums';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Color, ColorCodes, ColorCollection, ColorFormatsCollection, } from './ts-color-types/color-types-index';
+import { COLOR_CODE_FORMAT_STRING, COLOR_CODE_SYSTEM_NAME, COLOR_FAMILY } from './ts-color-types/color-enums';
+import { ColorModel, ColorRepository } from './models/color';
+import { ColorCodeFormatModel } from './models/color-code-format';
+import { getColorFamilyByName } from './models/color-family';
 
 
 export interface ColorAPIResponse {
@@ -22,3 +28,188 @@ export interface ColorAPI {
     getColorsByCodeSystem(system: string): Promise<ColorAPIResponse>;
     getAllColors(): Promise<ColorAPIResponse>;
 }
+
+// Format strings for each code group stored in a color file
+export const COLOR_FORMATS: ColorFormatsCollection = {
+    hex: new ColorCodeFormatModel(COLOR_CODE_SYSTEM_NAME.HEX6).toColorFormatString(),
+    rgb: new ColorCodeFormatModel(COLOR_CODE_SYSTEM_NAME.RGB).toColorFormatString(),
+    hsl: new ColorCodeFormatModel(COLOR_CODE_SYSTEM_NAME.HSL).toColorFormatString(),
+    cmyk: new ColorCodeFormatModel(COLOR_CODE_SYSTEM_NAME.CMYK).toColorFormatString()
+};
+
+/**
+ * ColorAPI implementation backed by the color files on disk.
+ * Files are loaded through ColorRepository once and cached in memory.
+ */
+export class ColorFileAPI implements ColorAPI {
+    private colorRepository: ColorRepository;
+    private colorsDir: string;
+    private cache: Map<string, ColorModel> | null = null;
+
+    constructor(colorsDir: string, schemaDir: string = './json-schema') {
+        this.colorsDir = colorsDir;
+        this.colorRepository = new ColorRepository(schemaDir);
+    }
+
+    // Find a color by file slug ("deep-space-blue") or color name ("Deep Space Blue")
+    async getColorByName(name: string): Promise<ColorAPIResponse> {
+        const colors = this.loadColors();
+        const slug = name.toLowerCase().replace(/\.json$/, '');
+        const bySlug = colors.get(slug);
+
+        if (bySlug) {
+            return this.toResponse([bySlug]);
+        }
+
+        const byName = Array.from(colors.values()).filter(
+            (color) => color.name.toLowerCase() === name.toLowerCase()
+        );
+        return this.toResponse(byName);
+    }
+
+    // Find colors by family name ("Blue Shades" or "blue")
+    async getColorsByFamily(family: string): Promise<ColorAPIResponse> {
+        const colorFamily = getColorFamilyByName(family);
+        if (!colorFamily) {
+            return this.toResponse([]);
+        }
+
+        const colors = this.colorRepository.findByFamily(this.getColorList(), colorFamily);
+        return this.toResponse(colors);
+    }
+
+    // Get colors that define the given code system, with only that system's codes
+    async getColorsByCodeSystem(system: string): Promise<ColorAPIResponse> {
+        const key = this.getCodeKey(system);
+        if (!key) {
+            return this.toResponse([]);
+        }
+
+        const colors = this.getColorList().filter((color) => color.colorCodes[key]);
+        return this.toResponse(colors, key);
+    }
+
+    // Get every color file
+    async getAllColors(): Promise<ColorAPIResponse> {
+        return this.toResponse(this.getColorList());
+    }
+
+    // Combine name, family and code system filters
+    async queryColors(params: ColorQueryParams): Promise<ColorAPIResponse> {
+        let colors = this.getColorList();
+
+        if (params.name) {
+            colors = this.colorRepository.findByName(colors, params.name);
+        }
+
+        if (params.family) {
+            const colorFamily = getColorFamilyByName(params.family);
+            colors = colorFamily ? this.colorRepository.findByFamily(colors, colorFamily) : [];
+        }
+
+        const system = params.codeSystem || this.getSystemForFormat(params.format);
+        if (!system) {
+            return this.toResponse(colors);
+        }
+
+        const key = this.getCodeKey(system);
+        if (!key) {
+            return this.toResponse([]);
+        }
+
+        return this.toResponse(colors.filter((color) => color.colorCodes[key]), key);
+    }
+
+    // Drop the cache so the next request re-reads the color files
+    clearCache(): void {
+        this.cache = null;
+    }
+
+    // Load all color files keyed by file slug
+    private loadColors(): Map<string, ColorModel> {
+        if (this.cache) {
+            return this.cache;
+        }
+
+        const colors = new Map<string, ColorModel>();
+        const files = fs.readdirSync(this.colorsDir).filter((f) => f.endsWith('.json'));
+
+        for (const file of files) {
+            const fullPath = path.join(this.colorsDir, file);
+            try {
+                const [color] = this.colorRepository.loadFromFile(fullPath);
+                if (color) {
+                    colors.set(file.replace('.json', ''), color);
+                }
+            } catch (error) {
+                console.warn(`Failed to load colors from ${fullPath}: ${error}`);
+            }
+        }
+
+        this.cache = colors;
+        return colors;
+    }
+
+    private getColorList(): ColorModel[] {
+        return Array.from(this.loadColors().values());
+    }
+
+    // Map a code system name to the key used in color files
+    private getCodeKey(system: string): keyof ColorFormatsCollection | null {
+        switch (system.toLowerCase()) {
+            case COLOR_CODE_SYSTEM_NAME.HEX3:
+            case COLOR_CODE_SYSTEM_NAME.HEX6:
+            case COLOR_CODE_SYSTEM_NAME.HEX8:
+            case 'hex':
+                return 'hex';
+            case COLOR_CODE_SYSTEM_NAME.RGB:
+                return 'rgb';
+            case COLOR_CODE_SYSTEM_NAME.HSL:
+                return 'hsl';
+            case COLOR_CODE_SYSTEM_NAME.CMYK:
+                return 'cmyk';
+        }
+        return null;
+    }
+
+    // Find the code system that uses a format string template
+    private getSystemForFormat(format?: string): COLOR_CODE_SYSTEM_NAME | undefined {
+        if (!format) return undefined;
+        return Object.values(COLOR_CODE_SYSTEM_NAME).find(
+            (system) => new ColorCodeFormatModel(system).getFormatTemplate() === format
+        );
+    }
+
+    // Wrap colors in an API response envelope
+    private toResponse(colors: ColorModel[], codeKey?: keyof ColorFormatsCollection): ColorAPIResponse {
+        return {
+            status: colors.length > 0 ? 'ok' : 'not-found',
+            data: {
+                colors: colors.map((color) => this.toApiColor(color, codeKey))
+            }
+        };
+    }
+
+    // Convert a color file entry to the API Color shape
+    private toApiColor(color: ColorModel, codeKey?: keyof ColorFormatsCollection): Color {
+        const source = color.namingSource || '';
+        const codes: ColorCodes[] = [];
+
+        for (const key of Object.keys(COLOR_FORMATS) as (keyof ColorFormatsCollection)[]) {
+            const values = color.colorCodes[key]?.values;
+            if (values && (!codeKey || codeKey === key)) {
+                codes.push({ formatString: COLOR_FORMATS[key], values });
+            }
+        }
+
+        return {
+            'unique-color-id': color.id,
+            name: { name: color.name, source },
+            'color-names': color.otherNames,
+            nickname: { name: color.nickname || '', source },
+            'color-family': color.colorFamily || COLOR_FAMILY.OTHER,
+            'color-codes': codes,
+            description: color.description || ''
+        };
+    }
+}
@@ -322,6 +322,19 @@ export class ColorCodeParser {
 
         return null;
     }
+
+    // Parse any color string to RgbValues
+    parseToRgb(colorString: string): RgbValues | null {
+        const parsed = this.parseAuto(colorString);
+        if (!parsed) return null;
+
+        if (parsed.hex) return colorCodeConverter.hexToRgb(parsed.hex);
+        if (parsed.rgb) return parsed.rgb;
+        if (parsed.hsl) return colorCodeConverter.hslToRgb(parsed.hsl);
+        if (parsed.cmyk) return colorCodeConverter.cmykToRgb(parsed.cmyk);
+
+        return null;
+    }
 }
 
 /**
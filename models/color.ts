@@ -262,6 +262,32 @@ export class ColorModel {
     getContrastColor(): string {
         return this.isLight() ? "#000000" : "#FFFFFF";
     }
+
+    // WCAG 2 relative luminance, from 0 for black to 1 for white
+    getRelativeLuminance(): number {
+        const codes = this.data["color-codes"];
+        const hex = codes.hex?.values;
+        const rgb = codes.rgb?.values ?? (hex
+            ? {
+                r: parseInt(`${hex.r1}${hex.r2}`, 16),
+                g: parseInt(`${hex.g1}${hex.g2}`, 16),
+                b: parseInt(`${hex.b1}${hex.b2}`, 16)
+            }
+            : null);
+        if (!rgb) return 0;
+
+        const [r, g, b] = [rgb.r, rgb.g, rgb.b].map((channel) => {
+            const c = channel / 255;
+            return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+        });
+        return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    }
+
+    // WCAG 2 contrast ratio against another color, from 1 to 21
+    getContrastRatio(other: ColorModel): number {
+        const [lighter, darker] = [this.getRelativeLuminance(), other.getRelativeLuminance()].sort((a, b) => b - a);
+        return (lighter + 0.05) / (darker + 0.05);
+    }
 }
 
 /**
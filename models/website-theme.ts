@@ -539,43 +539,110 @@ export class WebsiteThemeRepository {
         const clonedData = source.toJSON();
         clonedData["theme-name"] = `${source.themeName} Dark`;
 
-        // Invert background and text colors
-        const bgColors = clonedData.colors.background;
-        const textColors = clonedData.colors.text;
-
-        // Swap or darken background
-        if (bgColors.default) {
-            const parsed = colorCodeParser.parseAuto(bgColors.default);
-            if (parsed?.hex) {
-                const rgb = colorCodeConverter.hexToRgb(parsed.hex);
-                const hsl = colorCodeConverter.rgbToHsl(rgb);
-                // Invert lightness
-                hsl.l = 100 - hsl.l;
-                if (hsl.l > 30) hsl.l = 15; // Ensure it's dark
-                const darkRgb = colorCodeConverter.hslToRgb(hsl);
-                const darkHex = colorCodeConverter.rgbToHex(darkRgb);
-                bgColors.default = colorCodeFormatter.formatHex(darkHex);
-            }
+        const colors = clonedData.colors;
+        const original = source.toJSON().colors;
+
+        // Invert background lightness, ensuring it's dark
+        colors.background.default = this.adjustLightness(colors.background.default, (l) => {
+            const inverted = 100 - l;
+            return inverted > 30 ? 15 : inverted;
+        });
+        const base = this.getLightness(colors.background.default) ?? 15;
+
+        // Raised surfaces get lighter than the page in dark mode, keeping their own hue
+        const background = colors.background;
+        background.paper = this.adjustLightness(background.paper, () => base + 4);
+        background.elevated = this.adjustLightness(background.elevated, () => base + 8);
+
+        if (colors.surface) {
+            const surface = colors.surface;
+            surface.default = this.adjustLightness(surface.default, () => base + 4);
+            surface.variant = this.adjustLightness(surface.variant, () => base + 10);
+            // The inverse surface swaps to the light page color
+            if (surface.inverse) surface.inverse = original.background.default;
+        }
+
+        if (colors.border) {
+            const border = colors.border;
+            border.default = this.adjustLightness(border.default, () => base + 16);
+            border.light = this.adjustLightness(border.light, () => base + 10);
+            border.focus = this.adjustLightness(border.focus, (l) => this.toLightForeground(l, 60));
         }
 
         // Lighten text for dark background
-        if (textColors.primary) {
-            const parsed = colorCodeParser.parseAuto(textColors.primary);
-            if (parsed?.hex) {
-                const rgb = colorCodeConverter.hexToRgb(parsed.hex);
-                const hsl = colorCodeConverter.rgbToHsl(rgb);
-                // Invert lightness
-                hsl.l = 100 - hsl.l;
-                if (hsl.l < 70) hsl.l = 90; // Ensure it's light
-                const lightRgb = colorCodeConverter.hslToRgb(hsl);
-                const lightHex = colorCodeConverter.rgbToHex(lightRgb);
-                textColors.primary = colorCodeFormatter.formatHex(lightHex);
+        const text = colors.text;
+        text.primary = this.adjustLightness(text.primary, (l) => {
+            const inverted = 100 - l;
+            return inverted < 70 ? 90 : inverted;
+        });
+        text.secondary = this.adjustLightness(text.secondary, (l) => this.toLightForeground(l, 65));
+        text.disabled = this.adjustLightness(text.disabled, (l) => Math.min(Math.max(100 - l, 40), 55));
+        text.hint = this.adjustLightness(text.hint, (l) => this.toLightForeground(l, 55));
+        // Inverse text sits on the inverse surface, so it takes the light theme's text color
+        if (text.inverse) text.inverse = original.text.primary;
+
+        if (colors.link) {
+            const link = colors.link;
+            link.default = this.adjustLightness(link.default, (l) => this.toLightForeground(l, 60));
+            link.visited = this.adjustLightness(link.visited, (l) => this.toLightForeground(l, 55));
+            link.hover = this.adjustLightness(link.hover, (l) => this.toLightForeground(l, 70));
+            link.active = this.adjustLightness(link.active, (l) => this.toLightForeground(l, 50));
+        }
+
+        // Pale tints used behind status text become dark tints
+        if (colors.status) {
+            const status = colors.status;
+            for (const key of ["success-light", "warning-light", "error-light", "info-light"] as const) {
+                status[key] = this.adjustLightness(status[key], () => base + 8);
             }
         }
 
+        if (colors.interaction) {
+            const interaction = colors.interaction;
+            interaction.hover = this.adjustLightness(interaction.hover, (l) => this.toDarkBackground(l, base + 8));
+            interaction.active = this.adjustLightness(interaction.active, (l) => this.toDarkBackground(l, base + 12));
+            interaction.selected = this.adjustLightness(interaction.selected, (l) => this.toDarkBackground(l, base + 16));
+            interaction.disabled = this.adjustLightness(interaction.disabled, (l) => this.toDarkBackground(l, base + 6));
+            interaction["focus-ring"] = this.adjustLightness(
+                interaction["focus-ring"],
+                (l) => this.toLightForeground(l, 60)
+            );
+        }
+
         return new WebsiteThemeModel(clonedData);
     }
 
+    // Light colors keep their lightness; dark ones are inverted, to at least the minimum
+    private toLightForeground(lightness: number, minimum: number): number {
+        return lightness >= minimum ? lightness : Math.max(100 - lightness, minimum);
+    }
+
+    // Dark colors keep their lightness; light ones are inverted, to at most the maximum
+    private toDarkBackground(lightness: number, maximum: number): number {
+        return lightness <= maximum ? lightness : Math.min(100 - lightness, maximum);
+    }
+
+    private getLightness(value: string | undefined): number | undefined {
+        const rgb = value ? colorCodeParser.parseToRgb(value) : null;
+        return rgb ? colorCodeConverter.rgbToHsl(rgb).l : undefined;
+    }
+
+    // Set the HSL lightness of an opaque color; translucent and unparseable values are left as they are
+    private adjustLightness<T extends string | undefined>(value: T, lightness: (l: number) => number): T {
+        if (!value || /^\s*(rgba|hsla)/i.test(value)) return value;
+
+        const parsed = colorCodeParser.parseAuto(value);
+        if (parsed?.hex && `${parsed.hex.a1}${parsed.hex.a2}`.toUpperCase() !== "FF") return value;
+
+        const rgb = colorCodeParser.parseToRgb(value);
+        if (!rgb) return value;
+
+        const hsl = colorCodeConverter.rgbToHsl(rgb);
+        hsl.l = Math.min(100, Math.max(0, lightness(hsl.l)));
+        const hex = colorCodeConverter.rgbToHex(colorCodeConverter.hslToRgb(hsl));
+        return colorCodeFormatter.formatHex(hex) as T;
+    }
+
     // Export theme to CSS file content
     exportToCss(theme: WebsiteThemeModel, selector: string = ":root"): string {
         const variables = theme.toCssVariables();
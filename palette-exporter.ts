@@ -0,0 +1,316 @@
+/**
+ * Palette Exporter - A utility for writing palettes as design tool swatch files
+ * Provides functionality to:
+ * - Export GIMP/Inkscape palettes (.gpl)
+ * - Export Adobe Swatch Exchange files (.ase) with RGB and CMYK entries
+ * - Export Procreate swatches (.swatches, a zip holding Swatches.json)
+ * - Write exported files to disk
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+
+import type { ColorModel } from "./models/color";
+import { colorCodeConverter } from "./models/color-code-format";
+import type { ColorPaletteModel } from "./models/color-palette";
+import type { CmykValues, RgbValues } from "./ts-color-types/color-types-index.d";
+
+export type PaletteExportFormat = "gpl" | "ase" | "procreate";
+
+/**
+ * An exported palette file; binary formats are returned as Buffers
+ */
+export interface PaletteExportFile {
+    filename: string;
+    mimeType: string;
+    content: Buffer;
+}
+
+/**
+ * File and MIME metadata for each palette export format
+ */
+export const PALETTE_EXPORT_FORMATS: Record<
+    PaletteExportFormat,
+    { fileExtension: string; mimeType: string; displayName: string }
+> = {
+    gpl: { fileExtension: ".gpl", mimeType: "text/plain", displayName: "GIMP / Inkscape" },
+    ase: { fileExtension: ".ase", mimeType: "application/octet-stream", displayName: "Adobe Swatch Exchange" },
+    procreate: { fileExtension: ".swatches", mimeType: "application/zip", displayName: "Procreate" }
+};
+
+// Procreate palettes hold at most 30 swatches
+const PROCREATE_MAX_SWATCHES = 30;
+
+// Zip entries are dated 1980-01-01, the earliest DOS date, so output is reproducible
+const DOS_EPOCH_DATE = 0x0021;
+
+// ASE block types
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR_ENTRY = 0x0001;
+// ASE color type for entries that are neither global nor spot colors
+const ASE_COLOR_NORMAL = 2;
+
+/**
+ * A palette color resolved to the channels the swatch formats need
+ */
+interface SwatchColor {
+    name: string;
+    rgb: RgbValues;
+    cmyk: CmykValues;
+}
+
+/**
+ * Palette Exporter class for rendering palettes as swatch files
+ */
+export class PaletteExporter {
+    /**
+     * Render a palette in an export format
+     */
+    export(palette: ColorPaletteModel, colors: Map<string, ColorModel[]>, format: PaletteExportFormat): PaletteExportFile {
+        const swatches = this.toSwatches(colors);
+        const content = {
+            gpl: () => Buffer.from(this.createGpl(palette, swatches), "utf-8"),
+            ase: () => this.createAse(palette, swatches),
+            procreate: () => this.createProcreate(palette, swatches)
+        }[format]();
+
+        const info = PALETTE_EXPORT_FORMATS[format];
+        return {
+            filename: `${this.toFileSlug(palette.paletteName)}${info.fileExtension}`,
+            mimeType: info.mimeType,
+            content
+        };
+    }
+
+    /**
+     * Render a palette and write it into a directory
+     */
+    writePalette(
+        palette: ColorPaletteModel,
+        colors: Map<string, ColorModel[]>,
+        format: PaletteExportFormat,
+        outputDir: string
+    ): string {
+        const file = this.export(palette, colors, format);
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        const outputPath = path.join(outputDir, file.filename);
+        fs.writeFileSync(outputPath, file.content);
+        return outputPath;
+    }
+
+    /**
+     * GIMP palette text: "R G B<tab>Name" rows after a Name/Columns header
+     */
+    private createGpl(palette: ColorPaletteModel, swatches: SwatchColor[]): string {
+        const lines = [
+            "GIMP Palette",
+            `Name: ${palette.paletteName}`,
+            `Columns: ${Math.min(Math.max(swatches.length, 1), 16)}`,
+            "#"
+        ];
+        if (palette.description) {
+            lines.push(`# ${palette.description}`, "#");
+        }
+
+        for (const swatch of swatches) {
+            const { r, g, b } = swatch.rgb;
+            const channels = [r, g, b].map((channel) => String(channel).padStart(3, " ")).join(" ");
+            lines.push(`${channels}\t${swatch.name}`);
+        }
+
+        return lines.join("\n") + "\n";
+    }
+
+    /**
+     * Adobe Swatch Exchange: one group of RGB entries and one of CMYK entries
+     */
+    private createAse(palette: ColorPaletteModel, swatches: SwatchColor[]): Buffer {
+        const blocks: Buffer[] = [
+            this.aseGroupStart(palette.paletteName),
+            ...swatches.map((swatch) =>
+                this.aseColor(swatch.name, "RGB ", [swatch.rgb.r / 255, swatch.rgb.g / 255, swatch.rgb.b / 255])
+            ),
+            this.aseBlock(ASE_GROUP_END, Buffer.alloc(0)),
+            this.aseGroupStart(`${palette.paletteName} CMYK`),
+            ...swatches.map((swatch) =>
+                this.aseColor(
+                    swatch.name,
+                    "CMYK",
+                    [swatch.cmyk.c, swatch.cmyk.m, swatch.cmyk.y, swatch.cmyk.k].map((value) => value / 100)
+                )
+            ),
+            this.aseBlock(ASE_GROUP_END, Buffer.alloc(0))
+        ];
+
+        const header = Buffer.alloc(12);
+        header.write("ASEF", 0, "ascii");
+        header.writeUInt16BE(1, 4);
+        header.writeUInt16BE(0, 6);
+        header.writeUInt32BE(blocks.length, 8);
+        return Buffer.concat([header, ...blocks]);
+    }
+
+    /**
+     * Procreate swatches: a zip holding Swatches.json with HSB values from 0 to 1
+     *
+     * Procreate drops swatches past the 30th, so longer palettes are truncated.
+     */
+    private createProcreate(palette: ColorPaletteModel, swatches: SwatchColor[]): Buffer {
+        const entries = swatches.slice(0, PROCREATE_MAX_SWATCHES).map((swatch) => ({
+            ...this.toHsb(swatch.rgb),
+            alpha: 1,
+            colorSpace: 0
+        }));
+        const json = JSON.stringify([{ name: palette.paletteName, swatches: entries }]);
+        return this.createZip([{ name: "Swatches.json", data: Buffer.from(json, "utf-8") }]);
+    }
+
+    // Colors in palette order, with CMYK from the color file or converted from RGB
+    private toSwatches(colors: Map<string, ColorModel[]>): SwatchColor[] {
+        const swatches: SwatchColor[] = [];
+        for (const color of Array.from(colors.values()).flat()) {
+            const codes = color.colorCodes;
+            const rgb = codes.rgb?.values ?? (codes.hex ? colorCodeConverter.hexToRgb(codes.hex.values) : undefined);
+            if (!rgb) continue;
+
+            swatches.push({
+                name: color.name,
+                rgb,
+                cmyk: codes.cmyk?.values ?? colorCodeConverter.rgbToCmyk(rgb)
+            });
+        }
+        return swatches;
+    }
+
+    private aseGroupStart(name: string): Buffer {
+        return this.aseBlock(ASE_GROUP_START, this.aseName(name));
+    }
+
+    private aseColor(name: string, model: "RGB " | "CMYK", values: number[]): Buffer {
+        const body = Buffer.alloc(4 + values.length * 4 + 2);
+        body.write(model, 0, "ascii");
+        values.forEach((value, index) => body.writeFloatBE(value, 4 + index * 4));
+        body.writeInt16BE(ASE_COLOR_NORMAL, 4 + values.length * 4);
+        return this.aseBlock(ASE_COLOR_ENTRY, Buffer.concat([this.aseName(name), body]));
+    }
+
+    // Names are UTF-16BE with a null terminator, prefixed by their length in code units
+    private aseName(name: string): Buffer {
+        const buffer = Buffer.alloc(2 + (name.length + 1) * 2);
+        buffer.writeUInt16BE(name.length + 1, 0);
+        for (let index = 0; index < name.length; index++) {
+            buffer.writeUInt16BE(name.charCodeAt(index), 2 + index * 2);
+        }
+        return buffer;
+    }
+
+    private aseBlock(type: number, body: Buffer): Buffer {
+        const header = Buffer.alloc(6);
+        header.writeUInt16BE(type, 0);
+        header.writeUInt32BE(body.length, 2);
+        return Buffer.concat([header, body]);
+    }
+
+    private toHsb(rgb: RgbValues): { hue: number; saturation: number; brightness: number } {
+        const [r, g, b] = [rgb.r / 255, rgb.g / 255, rgb.b / 255];
+        const max = Math.max(r, g, b);
+        const delta = max - Math.min(r, g, b);
+
+        let hue = 0;
+        if (delta > 0) {
+            if (max === r) hue = ((g - b) / delta) % 6;
+            else if (max === g) hue = (b - r) / delta + 2;
+            else hue = (r - g) / delta + 4;
+            hue = (hue * 60 + 360) % 360;
+        }
+
+        return { hue: hue / 360, saturation: max === 0 ? 0 : delta / max, brightness: max };
+    }
+
+    // Deflated zip archive with a central directory, enough for the flat archives swatch formats use
+    private createZip(files: Array<{ name: string; data: Buffer }>): Buffer {
+        const local: Buffer[] = [];
+        const central: Buffer[] = [];
+        let offset = 0;
+
+        for (const file of files) {
+            const name = Buffer.from(file.name, "utf-8");
+            const compressed = zlib.deflateRawSync(file.data);
+            const crc = this.crc32(file.data);
+
+            const header = Buffer.alloc(30);
+            header.writeUInt32LE(0x04034b50, 0);
+            header.writeUInt16LE(20, 4);
+            header.writeUInt16LE(0x0800, 6);
+            header.writeUInt16LE(8, 8);
+            header.writeUInt16LE(DOS_EPOCH_DATE, 12);
+            header.writeUInt32LE(crc, 14);
+            header.writeUInt32LE(compressed.length, 18);
+            header.writeUInt32LE(file.data.length, 22);
+            header.writeUInt16LE(name.length, 26);
+            local.push(header, name, compressed);
+
+            const entry = Buffer.alloc(46);
+            entry.writeUInt32LE(0x02014b50, 0);
+            entry.writeUInt16LE(20, 4);
+            entry.writeUInt16LE(20, 6);
+            entry.writeUInt16LE(0x0800, 8);
+            entry.writeUInt16LE(8, 10);
+            entry.writeUInt16LE(DOS_EPOCH_DATE, 14);
+            entry.writeUInt32LE(crc, 16);
+            entry.writeUInt32LE(compressed.length, 20);
+            entry.writeUInt32LE(file.data.length, 24);
+            entry.writeUInt16LE(name.length, 28);
+            entry.writeUInt32LE(offset, 42);
+            central.push(entry, name);
+
+            offset += header.length + name.length + compressed.length;
+        }
+
+        const directory = Buffer.concat(central);
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054b50, 0);
+        end.writeUInt16LE(files.length, 8);
+        end.writeUInt16LE(files.length, 10);
+        end.writeUInt32LE(directory.length, 12);
+        end.writeUInt32LE(offset, 16);
+
+        return Buffer.concat([...local, directory, end]);
+    }
+
+    private crc32(data: Buffer): number {
+        let crc = 0xffffffff;
+        for (const byte of data) {
+            crc ^= byte;
+            for (let bit = 0; bit < 8; bit++) {
+                crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+            }
+        }
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+
+    private toFileSlug(name: string): string {
+        return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "palette";
+    }
+}
+
+// Export a default instance
+export const paletteExporter = new PaletteExporter();
+
+// Export utility functions for convenience
+export function exportPalette(
+    palette: ColorPaletteModel,
+    colors: Map<string, ColorModel[]>,
+    format: PaletteExportFormat
+): PaletteExportFile {
+    return paletteExporter.export(palette, colors, format);
+}
+
+export function parsePaletteExportFormat(value: string): PaletteExportFormat | undefined {
+    return (Object.keys(PALETTE_EXPORT_FORMATS) as PaletteExportFormat[]).find((format) => format === value.toLowerCase());
+}
@@ -4,6 +4,9 @@
  * Simple HTTP server that serves:
  * - Static HTML page with Preact components
  * - API endpoints for palette data
+ * - API endpoints for color data (see color-api.ts)
+ * - Theme export endpoints (see theme-generator.ts)
+ * - Palette swatch export endpoints (see palette-exporter.ts)
  *
  * Usage:
  *   npx sucrase-node palette-server.ts
@@ -14,10 +17,31 @@ import * as http from 'http';
 import * as fs from 'fs';
 import * as path from 'path';
 
+import { ColorFileAPI, ColorQueryParams } from './color-api';
+import { ColorPaletteRepository } from './models/color-palette';
+import { WebsiteThemeModel, WebsiteThemeRepository, WebsiteThemeData } from './models/website-theme';
+import { exportPalette, parsePaletteExportFormat } from './palette-exporter';
+import { exportThemeFiles, getFileExtension, parseThemeExportFormat, ThemeFile, toThemeSlug } from './theme-generator';
+import { createTerminalPaletteThemes } from './theme-creators/terminal-theme';
+
 const PORT = 3333;
 const PALETTES_DIR = path.join(__dirname, 'data', 'palettes');
 const COLORS_DIR = path.join(__dirname, 'data', 'color-files');
+const THEMES_DIR = path.join(__dirname, 'data', 'themes');
+const DATA_DIR = path.join(__dirname, 'data');
 const PUBLIC_DIR = path.join(__dirname, 'public');
+const SCHEMA_DIR = path.join(__dirname, 'json-schema');
+
+const colorApi = new ColorFileAPI(COLORS_DIR, SCHEMA_DIR);
+const themeRepository = new WebsiteThemeRepository(SCHEMA_DIR);
+const paletteRepository = new ColorPaletteRepository(SCHEMA_DIR);
+
+// Content-Type charsets for the encodings theme files are written in
+const CHARSETS: Record<NonNullable<ThemeFile['encoding']>, string> = {
+    'utf-8': 'utf-8',
+    latin1: 'iso-8859-1',
+    utf16le: 'utf-16le'
+};
 
 // MIME types for static files
 const MIME_TYPES: Record<string, string> = {
@@ -83,6 +107,54 @@ function getPaletteData(filename: string): object | null {
     };
 }
 
+/**
+ * Get list of all theme files
+ */
+function getThemeList(): { name: string; file: string }[] {
+    if (!fs.existsSync(THEMES_DIR)) {
+        return [];
+    }
+
+    return fs.readdirSync(THEMES_DIR)
+        .filter(f => f.endsWith('.json'))
+        .map(file => {
+            const data = JSON.parse(fs.readFileSync(path.join(THEMES_DIR, file), 'utf-8'));
+            return {
+                name: data['theme-name'] || file.replace('.json', ''),
+                file: file
+            };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find a theme file by name ("deep-sea", "deep-sea-theme" or "deep-sea-theme.json")
+ */
+function getThemePath(name: string): string | null {
+    const base = name.replace(/\.json$/, '');
+    const candidates = [`${base}.json`, `${base}-theme.json`];
+
+    for (const candidate of candidates) {
+        const themePath = path.join(THEMES_DIR, path.basename(candidate));
+        if (fs.existsSync(themePath)) {
+            return themePath;
+        }
+    }
+    return null;
+}
+
+/**
+ * Read the request body as a string
+ */
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+        req.on('error', reject);
+    });
+}
+
 /**
  * Send JSON response
  */
@@ -94,6 +166,204 @@ function sendJSON(res: http.ServerResponse, data: object, status = 200): void {
     res.end(JSON.stringify(data));
 }
 
+/**
+ * Decode a URL path segment, or undefined when its percent-encoding is malformed
+ */
+function decodePathSegment(segment: string): string | undefined {
+    try {
+        return decodeURIComponent(segment);
+    } catch (error) {
+        if (error instanceof URIError) return undefined;
+        throw error;
+    }
+}
+
+/**
+ * Handle /api/colors and /api/colors/:name
+ */
+async function handleColorRequest(res: http.ServerResponse, url: URL): Promise<void> {
+    const pathname = url.pathname.replace(/\/$/, '');
+
+    if (pathname === '/api/colors') {
+        const params: ColorQueryParams = {
+            name: url.searchParams.get('name') || undefined,
+            family: (url.searchParams.get('family') || undefined) as ColorQueryParams['family'],
+            codeSystem: (url.searchParams.get('codeSystem') || undefined) as ColorQueryParams['codeSystem'],
+            format: (url.searchParams.get('format') || undefined) as ColorQueryParams['format']
+        };
+        const hasQuery = Object.values(params).some(value => value !== undefined);
+        sendJSON(res, hasQuery ? await colorApi.queryColors(params) : await colorApi.getAllColors());
+        return;
+    }
+
+    const name = decodePathSegment(pathname.replace('/api/colors/', ''));
+    if (name === undefined) {
+        sendJSON(res, { error: 'Malformed color name in URL' }, 400);
+        return;
+    }
+
+    // Unknown colors keep the ColorAPIResponse envelope, with status 'not-found' and a 404
+    const response = await colorApi.getColorByName(name);
+    sendJSON(res, response, response.data.colors.length > 0 ? 200 : 404);
+}
+
+/**
+ * Attachment header with an ASCII filename for old clients and the exact name as RFC 5987 filename*
+ */
+function toContentDisposition(filename: string): string {
+    const fallback = filename.replace(/[^\x20-\x7E]|["\\]/g, '_');
+    const encoded = encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Send a generated theme file as a download
+ */
+function sendThemeFile(res: http.ServerResponse, file: ThemeFile, filename: string): void {
+    const encoding = file.encoding ?? 'utf-8';
+    res.writeHead(200, {
+        'Content-Type': `${file.mimeType}; charset=${CHARSETS[encoding]}`,
+        'Content-Disposition': toContentDisposition(filename),
+        'Access-Control-Allow-Origin': '*'
+    });
+    res.end(file.content, encoding);
+}
+
+/**
+ * Handle GET/POST /api/themes/:name/export?format=&file=
+ *
+ * GET renders a theme from data/themes, POST renders the theme JSON in the request body.
+ * Single-file formats are sent as a download. Formats that emit several files return a
+ * JSON list of every file, or the one named by ?file= as a download.
+ */
+async function handleThemeExport(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<void> {
+    const name = decodePathSegment(url.pathname.replace('/api/themes/', '').replace(/\/export\/?$/, ''));
+    if (name === undefined) {
+        sendJSON(res, { error: 'Malformed theme name in URL' }, 400);
+        return;
+    }
+
+    const formatParam = url.searchParams.get('format') || 'css';
+    const format = parseThemeExportFormat(formatParam);
+
+    if (!format) {
+        sendJSON(res, { error: `Unknown export format: ${formatParam}` }, 400);
+        return;
+    }
+
+    let theme: WebsiteThemeModel;
+
+    if (req.method === 'POST') {
+        let data: WebsiteThemeData;
+        try {
+            data = JSON.parse(await readBody(req));
+        } catch (error) {
+            sendJSON(res, { error: 'Request body must be theme JSON' }, 400);
+            return;
+        }
+
+        theme = new WebsiteThemeModel(data, SCHEMA_DIR);
+        const validation = theme.validate();
+        if (!validation.valid) {
+            sendJSON(res, { error: 'Invalid theme data', errors: validation.errors }, 400);
+            return;
+        }
+    } else if (req.method === 'GET') {
+        const themePath = getThemePath(name);
+        if (!themePath) {
+            sendJSON(res, { error: 'Theme not found' }, 404);
+            return;
+        }
+        theme = themeRepository.loadFromFile(themePath);
+    } else {
+        sendJSON(res, { error: 'Method not allowed' }, 405);
+        return;
+    }
+
+    const files = exportThemeFiles(theme, format, themeRepository);
+    if (!files) {
+        sendJSON(res, { error: `Export format not supported yet: ${format}` }, 501);
+        return;
+    }
+
+    const slug = toThemeSlug(path.basename(name).replace(/\.json$/, '')) || 'theme';
+    sendThemeFiles(res, files, format, url, `${slug}${getFileExtension(files[0].filename)}`);
+}
+
+/**
+ * Send export files: the one named by ?file= as a download, a JSON list of every file when
+ * there are several, or the only file as a download named `filename`
+ */
+function sendThemeFiles(res: http.ServerResponse, files: ThemeFile[], format: string, url: URL, filename?: string): void {
+    const selected = url.searchParams.get('file');
+    if (selected) {
+        const file = files.find(candidate => candidate.filepath === selected);
+        if (!file) {
+            sendJSON(res, { error: `No file ${selected} in ${format} export`, files: files.map(f => f.filepath) }, 404);
+            return;
+        }
+        sendThemeFile(res, file, file.filename);
+        return;
+    }
+
+    if (files.length > 1) {
+        sendJSON(res, {
+            format,
+            files: files.map(file => ({ filepath: file.filepath, mimeType: file.mimeType, content: file.content }))
+        });
+        return;
+    }
+
+    const [file] = files;
+    sendThemeFile(res, file, filename ?? file.filename);
+}
+
+/**
+ * Handle GET /api/palette/:file/export?format=gpl|ase|procreate|terminal&file=
+ *
+ * format=terminal renders terminal color schemes, listed or selected with ?file= like the
+ * multi-file theme exports.
+ */
+function handlePaletteExport(res: http.ServerResponse, url: URL): void {
+    const filename = decodePathSegment(url.pathname.replace('/api/palette/', '').replace(/\/export\/?$/, ''));
+    if (filename === undefined) {
+        sendJSON(res, { error: 'Malformed palette name in URL' }, 400);
+        return;
+    }
+
+    const formatParam = url.searchParams.get('format') || 'gpl';
+    const format = parsePaletteExportFormat(formatParam);
+    const terminal = formatParam.toLowerCase() === 'terminal';
+
+    if (!format && !terminal) {
+        sendJSON(res, { error: `Unknown palette export format: ${formatParam}` }, 400);
+        return;
+    }
+
+    const palettePath = path.join(PALETTES_DIR, path.basename(filename));
+    if (!fs.existsSync(palettePath)) {
+        sendJSON(res, { error: 'Palette not found' }, 404);
+        return;
+    }
+
+    const palette = paletteRepository.loadFromFile(palettePath);
+    const colors = paletteRepository.loadAllColors(palette, DATA_DIR);
+
+    if (!format) {
+        sendThemeFiles(res, createTerminalPaletteThemes(palette, colors), 'terminal', url);
+        return;
+    }
+
+    const exported = exportPalette(palette, colors, format);
+
+    res.writeHead(200, {
+        'Content-Type': exported.mimeType.startsWith('text/') ? `${exported.mimeType}; charset=utf-8` : exported.mimeType,
+        'Content-Disposition': toContentDisposition(exported.filename),
+        'Access-Control-Allow-Origin': '*'
+    });
+    res.end(exported.content);
+}
+
 /**
  * Serve static file
  */
@@ -128,6 +398,15 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): voi
         return;
     }
 
+    if (pathname.startsWith('/api/palette/') && /\/export\/?$/.test(pathname)) {
+        try {
+            handlePaletteExport(res, url);
+        } catch (error) {
+            sendJSON(res, { error: error instanceof Error ? error.message : String(error) }, 500);
+        }
+        return;
+    }
+
     if (pathname.startsWith('/api/palette/')) {
         const filename = pathname.replace('/api/palette/', '');
         const data = getPaletteData(filename);
@@ -140,6 +419,26 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): voi
         return;
     }
 
+    if (pathname === '/api/colors' || pathname.startsWith('/api/colors/')) {
+        handleColorRequest(res, url).catch(error => {
+            sendJSON(res, { error: error instanceof Error ? error.message : String(error) }, 500);
+        });
+        return;
+    }
+
+    if (pathname === '/api/themes') {
+        const themes = getThemeList();
+        sendJSON(res, { themes });
+        return;
+    }
+
+    if (pathname.startsWith('/api/themes/') && /\/export\/?$/.test(pathname)) {
+        handleThemeExport(req, res, url).catch(error => {
+            sendJSON(res, { error: error instanceof Error ? error.message : String(error) }, 500);
+        });
+        return;
+    }
+
     // Static files
     if (pathname === '/' || pathname === '/index.html') {
         serveStatic(res, path.join(PUBLIC_DIR, 'index.html'));
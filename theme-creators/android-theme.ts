@@ -0,0 +1,204 @@
+/** Application to take a color theme file and render as an Android theme file(s) */
+
+import { ColorModel } from "../models/color";
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import { createHeaderLines, createThemeFile, getContentColor, registerThemeCreator, ThemeFile, toArgbHex, toPascalCase } from "../theme-generator";
+import type { AndroidThemeImplementation } from "../ts-theme-types/theme-file-index";
+import { serializeXml, XmlElement, XmlWriteOptions } from "../xml-maker";
+
+// Default options for Android theme generation
+export const DEFAULT_ANDROID_THEME_IMPLEMENTATION: AndroidThemeImplementation = {
+    format: "android",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "",
+    exportName: "colors",
+    generateNightColors: true,
+    generateThemes: true,
+    materialVersion: "3",
+    themeStyleName: "",
+    parentTheme: ""
+};
+
+/**
+ * A theme attribute and the theme colors that can fill it
+ */
+interface ThemeAttribute {
+    name: string;
+    /** Theme color paths in order of preference */
+    colors: string[];
+    /** Color the attribute is drawn on; a black or white resource is computed when no path resolves */
+    contentFor?: string;
+}
+
+const MATERIAL3_ATTRIBUTES: ThemeAttribute[] = [
+    { name: "colorPrimary", colors: ["primary.main"] },
+    { name: "colorOnPrimary", colors: ["primary.contrast"], contentFor: "primary.main" },
+    { name: "colorPrimaryContainer", colors: ["primary.light"] },
+    { name: "colorOnPrimaryContainer", colors: ["primary.dark"] },
+    { name: "colorSecondary", colors: ["secondary.main"] },
+    { name: "colorOnSecondary", colors: ["secondary.contrast"], contentFor: "secondary.main" },
+    { name: "colorSecondaryContainer", colors: ["secondary.light"] },
+    { name: "colorOnSecondaryContainer", colors: ["secondary.dark"] },
+    { name: "colorTertiary", colors: ["accent.main"] },
+    { name: "colorOnTertiary", colors: ["accent.contrast"], contentFor: "accent.main" },
+    { name: "colorTertiaryContainer", colors: ["accent.light"] },
+    { name: "colorOnTertiaryContainer", colors: ["accent.dark"] },
+    { name: "android:colorBackground", colors: ["background.default"] },
+    { name: "colorOnBackground", colors: ["text.primary"] },
+    { name: "colorSurface", colors: ["surface.default", "background.paper"] },
+    { name: "colorOnSurface", colors: ["text.primary"] },
+    { name: "colorSurfaceVariant", colors: ["surface.variant"] },
+    { name: "colorOnSurfaceVariant", colors: ["text.secondary"] },
+    { name: "colorSurfaceInverse", colors: ["surface.inverse"] },
+    { name: "colorOnSurfaceInverse", colors: ["text.inverse"] },
+    { name: "colorOutline", colors: ["border.default"] },
+    { name: "colorError", colors: ["status.error"] },
+    { name: "colorOnError", colors: [], contentFor: "status.error" },
+    { name: "colorErrorContainer", colors: ["status.error-light"] }
+];
+
+const MATERIAL2_ATTRIBUTES: ThemeAttribute[] = [
+    { name: "colorPrimary", colors: ["primary.main"] },
+    { name: "colorPrimaryVariant", colors: ["primary.dark"] },
+    { name: "colorOnPrimary", colors: ["primary.contrast"], contentFor: "primary.main" },
+    { name: "colorSecondary", colors: ["secondary.main", "accent.main"] },
+    { name: "colorSecondaryVariant", colors: ["secondary.dark", "accent.dark"] },
+    { name: "colorOnSecondary", colors: ["secondary.contrast", "accent.contrast"], contentFor: "secondary.main" },
+    { name: "android:colorBackground", colors: ["background.default"] },
+    { name: "colorOnBackground", colors: ["text.primary"] },
+    { name: "colorSurface", colors: ["surface.default", "background.paper"] },
+    { name: "colorOnSurface", colors: ["text.primary"] },
+    { name: "colorError", colors: ["status.error"] },
+    { name: "colorOnError", colors: [], contentFor: "status.error" },
+    { name: "android:statusBarColor", colors: ["primary.dark", "primary.main"] }
+];
+
+/**
+ * Render a theme as Android resources: res/values/colors.xml, res/values-night/colors.xml
+ * from the dark variant, and a DayNight Material theme in res/values/themes.xml
+ *
+ * Colors are written as #AARRGGBB. The night file only overrides colors that change.
+ */
+export function createAndroidTheme(theme: WebsiteThemeModel, impl: AndroidThemeImplementation): ThemeFile[] {
+    const options: XmlWriteOptions = {
+        prettyPrint: !impl.minify,
+        indentSize: 4,
+        comments: impl.includeComments ? createHeaderLines(theme) : []
+    };
+    const attributes = impl.materialVersion === "2" ? MATERIAL2_ATTRIBUTES : MATERIAL3_ATTRIBUTES;
+    const light = collectColors(theme.toJsObject(), attributes, impl);
+    const file = (filepath: string, root: XmlElement): ThemeFile =>
+        createThemeFile(theme, filepath, "application/xml", serializeXml(root, options));
+
+    const files = [file(`res/values/${impl.exportName}.xml`, createColorResources(light))];
+
+    if (impl.generateNightColors) {
+        const dark = collectColors(websiteThemeRepository.createDarkVariant(theme).toJsObject(), attributes, impl);
+        const changed = new Map(Array.from(dark).filter(([name, value]) => light.get(name) !== value));
+        files.push(file(`res/values-night/${impl.exportName}.xml`, createColorResources(changed)));
+    }
+
+    if (impl.generateThemes) {
+        files.push(file("res/values/themes.xml", createThemeResources(theme, attributes, light, impl)));
+    }
+
+    return files;
+}
+
+// Resource name -> #AARRGGBB for every theme color plus computed content colors
+function collectColors(
+    colors: Record<string, Record<string, string>>,
+    attributes: ThemeAttribute[],
+    impl: AndroidThemeImplementation
+): Map<string, string> {
+    const resources = new Map<string, string>();
+
+    for (const [group, values] of Object.entries(colors)) {
+        for (const [key, value] of Object.entries(values)) {
+            const color = toAndroidColor(value);
+            if (color) resources.set(toResourceName(impl, `${group}.${key}`), color);
+        }
+    }
+
+    for (const attribute of attributes) {
+        if (!attribute.contentFor || resolvePath(colors, attribute.colors)) continue;
+        const background = resolvePath(colors, [attribute.contentFor]);
+        if (background) {
+            resources.set(toResourceName(impl, `on.${attribute.contentFor}`), toAndroidColor(getContentColor(background))!);
+        }
+    }
+
+    return resources;
+}
+
+function createColorResources(colors: Map<string, string>): XmlElement {
+    return {
+        name: "resources",
+        children: Array.from(colors).map(([name, value]) => ({ name: "color", attributes: { name }, text: value }))
+    };
+}
+
+function createThemeResources(
+    theme: WebsiteThemeModel,
+    attributes: ThemeAttribute[],
+    colors: Map<string, string>,
+    impl: AndroidThemeImplementation
+): XmlElement {
+    const source = theme.toJsObject();
+    const items: XmlElement[] = [];
+
+    for (const attribute of attributes) {
+        const path = attribute.colors.find((candidate) => resolvePath(source, [candidate]))
+            ?? (attribute.contentFor ? `on.${attribute.contentFor}` : undefined);
+        const name = path ? toResourceName(impl, path) : undefined;
+        if (name && colors.has(name)) {
+            items.push({ name: "item", attributes: { name: attribute.name }, text: `@color/${name}` });
+        }
+    }
+
+    const parent = impl.parentTheme || (impl.materialVersion === "2"
+        ? "Theme.MaterialComponents.DayNight.NoActionBar"
+        : "Theme.Material3.DayNight.NoActionBar");
+    const styleName = impl.themeStyleName || `Theme.${toPascalCase([theme.themeName], "App")}`;
+
+    return {
+        name: "resources",
+        children: [{ name: "style", attributes: { name: styleName, parent }, children: items }]
+    };
+}
+
+function resolvePath(colors: Record<string, Record<string, string>>, paths: string[]): string | undefined {
+    for (const path of paths) {
+        const [group, key] = path.split(".");
+        if (colors[group]?.[key]) return colors[group][key];
+    }
+    return undefined;
+}
+
+// Resource names only allow lowercase letters, digits and underscores
+function toResourceName(impl: AndroidThemeImplementation, path: string): string {
+    return [impl.variablePrefix, path]
+        .filter(Boolean)
+        .join("_")
+        .toLowerCase()
+        .replace(/[^a-z0-9_]+/g, "_");
+}
+
+// Android orders the alpha channel first: #AARRGGBB
+function toAndroidColor(value: string): string | null {
+    const argb = toArgbHex(value);
+    if (!argb) return null;
+
+    const [a1, a2, r1, r2, g1, g2, b1, b2] = argb.split("");
+    const color = new ColorModel({
+        "unique-color-id": value,
+        name: value,
+        "color-codes": { hex: { values: { r1, r2, g1, g2, b1, b2, a1, a2 } } }
+    });
+    // getHexWithAlpha gives RRGGBBAA, Android reads the alpha first
+    const rgba = color.getHexWithAlpha(false);
+    return `#${rgba.slice(6)}${rgba.slice(0, 6)}`;
+}
+
+registerThemeCreator("android", createAndroidTheme, DEFAULT_ANDROID_THEME_IMPLEMENTATION);
@@ -1,4 +1,344 @@
 /** Application to take a color theme file and render as an Angular theme file(s) */
 
-// Import theme format file
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import { colorCodeConverter, colorCodeFormatter, colorCodeParser } from "../models/color-code-format";
+import {
+    createHeaderComment,
+    createThemeFile,
+    formatJsObject,
+    formatTsInterface,
+    getContentColor,
+    registerThemeCreator,
+    ThemeFile
+} from "../theme-generator";
+import type { AngularThemeImplementation } from "../ts-theme-types/theme-file-index";
+import type { RgbValues } from "../ts-color-types/color-types-index.d";
 
+// Default options for Angular theme generation
+export const DEFAULT_ANGULAR_THEME_IMPLEMENTATION: AngularThemeImplementation = {
+    format: "angular",
+    generateService: true,
+    generateScss: false,
+    useMaterialTheming: false,
+    generateModule: false,
+    includeThemeSwitcher: true,
+    angularVersion: "17"
+};
+
+// Material hues and how far each is mixed toward white (negative: toward black) from the main color
+const MATERIAL_HUES: Array<[string, number]> = [
+    ["50", 0.9],
+    ["100", 0.75],
+    ["200", 0.55],
+    ["300", 0.35],
+    ["400", 0.15],
+    ["500", 0],
+    ["600", -0.1],
+    ["700", -0.25],
+    ["800", -0.4],
+    ["900", -0.55],
+    ["A100", 0.5],
+    ["A200", 0.25],
+    ["A400", 0],
+    ["A700", -0.3]
+];
+
+/**
+ * Render a theme as typed theme objects with an injectable ThemeService, plus optional
+ * SCSS variables and an Angular Material palette
+ *
+ * Angular 16+ services expose signals; Angular 15 falls back to RxJS observables.
+ */
+export function createAngularTheme(theme: WebsiteThemeModel, impl: AngularThemeImplementation): ThemeFile[] {
+    const header = createHeaderComment(theme);
+    const useSignals = Number(impl.angularVersion) >= 16;
+
+    const tsFile = (filepath: string, lines: string[]): ThemeFile =>
+        createThemeFile(theme, filepath, "text/typescript", [header, "", ...lines].join("\n") + "\n");
+    const scssFile = (filepath: string, lines: string[]): ThemeFile =>
+        createThemeFile(theme, filepath, "text/x-scss", [header, "", ...lines].join("\n") + "\n");
+
+    const files = [tsFile("theme.ts", createThemeModule(theme))];
+
+    if (impl.generateService) {
+        files.push(tsFile("theme.service.ts", useSignals ? createSignalService(impl) : createObservableService(impl)));
+
+        if (impl.includeThemeSwitcher) {
+            files.push(tsFile("theme-toggle.component.ts", createToggleComponent(useSignals)));
+        }
+        if (impl.generateModule) {
+            files.push(tsFile("theme.module.ts", createModule(impl)));
+        }
+    }
+
+    if (impl.generateScss) {
+        files.push(scssFile("_theme.scss", [theme.toScssVariables("$theme")]));
+    }
+    if (impl.useMaterialTheming) {
+        files.push(scssFile("_material-theme.scss", createMaterialTheme(theme, impl)));
+    }
+
+    return files;
+}
+
+// Light and dark theme objects
+function createThemeModule(theme: WebsiteThemeModel): string[] {
+    const light = theme.toJsObject();
+    const dark = websiteThemeRepository.createDarkVariant(theme).toJsObject();
+
+    return [
+        formatTsInterface("ThemeColors", light),
+        "",
+        `export type ThemeMode = "light" | "dark";`,
+        "",
+        `export const lightTheme: ThemeColors = ${formatJsObject(light)};`,
+        "",
+        `export const darkTheme: ThemeColors = ${formatJsObject(dark)};`,
+        "",
+        `export const themes: Record<ThemeMode, ThemeColors> = {`,
+        `  light: lightTheme,`,
+        `  dark: darkTheme,`,
+        `};`
+    ];
+}
+
+function createSignalService(impl: AngularThemeImplementation): string[] {
+    return [
+        `import { DOCUMENT } from "@angular/common";`,
+        `import { Injectable, computed, effect, inject, signal } from "@angular/core";`,
+        `import { themes } from "./theme";`,
+        `import type { ThemeColors, ThemeMode } from "./theme";`,
+        "",
+        `@Injectable({ providedIn: "root" })`,
+        `export class ThemeService {`,
+        `  private readonly document = inject(DOCUMENT);`,
+        `  private readonly modeSignal = signal<ThemeMode>("light");`,
+        "",
+        `  readonly mode = this.modeSignal.asReadonly();`,
+        `  readonly theme = computed(() => themes[this.modeSignal()]);`,
+        "",
+        `  constructor() {`,
+        `    effect(() => this.applyTheme(this.theme(), this.mode()));`,
+        `  }`,
+        "",
+        `  setMode(mode: ThemeMode): void {`,
+        `    this.modeSignal.set(mode);`,
+        `  }`,
+        ...(impl.includeThemeSwitcher
+            ? [
+                "",
+                `  toggleMode(): void {`,
+                `    this.modeSignal.update((mode) => (mode === "light" ? "dark" : "light"));`,
+                `  }`
+            ]
+            : []),
+        "",
+        ...createApplyTheme(),
+        `}`
+    ];
+}
+
+function createObservableService(impl: AngularThemeImplementation): string[] {
+    return [
+        `import { DOCUMENT } from "@angular/common";`,
+        `import { Injectable, inject } from "@angular/core";`,
+        `import { BehaviorSubject, map } from "rxjs";`,
+        `import { themes } from "./theme";`,
+        `import type { ThemeColors, ThemeMode } from "./theme";`,
+        "",
+        `@Injectable({ providedIn: "root" })`,
+        `export class ThemeService {`,
+        `  private readonly document = inject(DOCUMENT);`,
+        `  private readonly modeSubject = new BehaviorSubject<ThemeMode>("light");`,
+        "",
+        `  readonly mode$ = this.modeSubject.asObservable();`,
+        `  readonly theme$ = this.mode$.pipe(map((mode) => themes[mode]));`,
+        "",
+        `  constructor() {`,
+        `    this.mode$.subscribe((mode) => this.applyTheme(themes[mode], mode));`,
+        `  }`,
+        "",
+        `  get mode(): ThemeMode {`,
+        `    return this.modeSubject.value;`,
+        `  }`,
+        "",
+        `  get theme(): ThemeColors {`,
+        `    return themes[this.modeSubject.value];`,
+        `  }`,
+        "",
+        `  setMode(mode: ThemeMode): void {`,
+        `    this.modeSubject.next(mode);`,
+        `  }`,
+        ...(impl.includeThemeSwitcher
+            ? [
+                "",
+                `  toggleMode(): void {`,
+                `    this.setMode(this.modeSubject.value === "light" ? "dark" : "light");`,
+                `  }`
+            ]
+            : []),
+        "",
+        ...createApplyTheme(),
+        `}`
+    ];
+}
+
+function createApplyTheme(): string[] {
+    return [
+        `  // Expose the theme as --theme-<group>-<key> custom properties on the document root`,
+        `  private applyTheme(theme: ThemeColors, mode: ThemeMode): void {`,
+        `    const root = this.document.documentElement;`,
+        `    for (const [group, colors] of Object.entries(theme)) {`,
+        `      for (const [key, value] of Object.entries(colors as Record<string, string>)) {`,
+        `        root.style.setProperty(\`--theme-\${group}-\${key}\`, value);`,
+        `      }`,
+        `    }`,
+        `    root.setAttribute("data-theme", mode);`,
+        `  }`
+    ];
+}
+
+// Standalone light/dark toggle button
+function createToggleComponent(useSignals: boolean): string[] {
+    const mode = useSignals ? "themeService.mode()" : "themeService.mode";
+
+    return [
+        `import { Component, inject } from "@angular/core";`,
+        `import { ThemeService } from "./theme.service";`,
+        "",
+        `@Component({`,
+        `  selector: "app-theme-toggle",`,
+        `  standalone: true,`,
+        "  template: `",
+        `    <button`,
+        `      type="button"`,
+        `      class="theme-toggle"`,
+        `      [attr.aria-pressed]="${mode} === 'dark'"`,
+        `      (click)="themeService.toggleMode()"`,
+        `    >`,
+        `      {{ ${mode} === "light" ? "Dark mode" : "Light mode" }}`,
+        `    </button>`,
+        "  `,",
+        "  styles: [",
+        "    `",
+        `      .theme-toggle {`,
+        `        padding: 0.5rem 1rem;`,
+        `        border: 1px solid var(--theme-border-default, currentColor);`,
+        `        border-radius: 0.375rem;`,
+        `        background-color: var(--theme-primary-main);`,
+        `        color: var(--theme-primary-contrast);`,
+        `        cursor: pointer;`,
+        `      }`,
+        "    `,",
+        "  ],",
+        `})`,
+        `export class ThemeToggleComponent {`,
+        `  readonly themeService = inject(ThemeService);`,
+        `}`
+    ];
+}
+
+// NgModule that creates ThemeService at startup and shares the toggle component
+function createModule(impl: AngularThemeImplementation): string[] {
+    const component = impl.includeThemeSwitcher;
+
+    return [
+        `import { APP_INITIALIZER, NgModule } from "@angular/core";`,
+        `import { ThemeService } from "./theme.service";`,
+        ...(component ? [`import { ThemeToggleComponent } from "./theme-toggle.component";`] : []),
+        "",
+        `// Injecting ThemeService applies the theme variables before the first render`,
+        `export function initializeTheme(_themeService: ThemeService): () => void {`,
+        `  return () => undefined;`,
+        `}`,
+        "",
+        `@NgModule({`,
+        ...(component ? [`  imports: [ThemeToggleComponent],`, `  exports: [ThemeToggleComponent],`] : []),
+        `  providers: [`,
+        `    {`,
+        `      provide: APP_INITIALIZER,`,
+        `      useFactory: initializeTheme,`,
+        `      deps: [ThemeService],`,
+        `      multi: true,`,
+        `    },`,
+        `  ],`,
+        `})`,
+        `export class ThemeModule {}`
+    ];
+}
+
+// Angular Material palettes built from the theme's primary, accent and error colors
+function createMaterialTheme(theme: WebsiteThemeModel, impl: AngularThemeImplementation): string[] {
+    const colors = theme.toJsObject();
+    // Material 18 moved the M2 theming API behind an m2- prefix
+    const m2 = impl.angularVersion === "18" ? "m2-" : "";
+    const accent = colors.accent?.main ?? colors.secondary?.main ?? colors.primary.main;
+    const error = colors.status?.error;
+
+    const lines = [
+        `@use "@angular/material" as mat;`,
+        "",
+        `@include mat.core();`,
+        "",
+        createPaletteMap("theme-primary-palette", colors.primary.main),
+        "",
+        createPaletteMap("theme-accent-palette", accent)
+    ];
+    if (error) {
+        lines.push("", createPaletteMap("theme-warn-palette", error));
+    }
+
+    lines.push(
+        "",
+        `$theme-primary: mat.${m2}define-palette($theme-primary-palette, 500, 300, 700);`,
+        `$theme-accent: mat.${m2}define-palette($theme-accent-palette, A200, A100, A400);`,
+        `$theme-warn: mat.${m2}define-palette(${error ? "$theme-warn-palette" : `mat.$${m2}red-palette`});`,
+        "",
+        `$theme-colors: (`,
+        `  primary: $theme-primary,`,
+        `  accent: $theme-accent,`,
+        `  warn: $theme-warn,`,
+        `);`,
+        "",
+        `$theme-light: mat.${m2}define-light-theme((color: $theme-colors));`,
+        `$theme-dark: mat.${m2}define-dark-theme((color: $theme-colors));`,
+        "",
+        `@include mat.all-component-themes($theme-light);`,
+        "",
+        `// Matches the data-theme attribute set by ThemeService`,
+        `[data-theme="dark"] {`,
+        `  @include mat.all-component-colors($theme-dark);`,
+        `}`
+    );
+
+    return lines;
+}
+
+// Material palette map: hues mixed from the main color, with black/white contrast colors
+function createPaletteMap(name: string, main: string): string {
+    const base = colorCodeParser.parseToRgb(main) ?? { r: 0, g: 0, b: 0 };
+    const hues = MATERIAL_HUES.map(([hue, amount]): [string, string] => [hue, toHex(mix(base, amount))]);
+
+    return [
+        `$${name}: (`,
+        ...hues.map(([hue, value]) => `  ${hue}: ${value},`),
+        `  contrast: (`,
+        ...hues.map(([hue, value]) => `    ${hue}: ${getContentColor(value)},`),
+        `  ),`,
+        `);`
+    ].join("\n");
+}
+
+// Mix toward white for positive amounts and toward black for negative ones
+function mix(rgb: RgbValues, amount: number): RgbValues {
+    const target = amount >= 0 ? 255 : 0;
+    const weight = Math.abs(amount);
+    const channel = (value: number): number => Math.round(value + (target - value) * weight);
+    return { r: channel(rgb.r), g: channel(rgb.g), b: channel(rgb.b) };
+}
+
+function toHex(rgb: RgbValues): string {
+    return colorCodeFormatter.formatHex(colorCodeConverter.rgbToHex(rgb));
+}
+
+registerThemeCreator("angular", createAngularTheme, DEFAULT_ANGULAR_THEME_IMPLEMENTATION);
@@ -0,0 +1,169 @@
+/** Application to take a color theme file and render as a Jetpack Compose theme file(s) */
+
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import {
+    createHeaderComment,
+    createThemeFile,
+    registerThemeCreator,
+    resolveRoles,
+    SchemeRole,
+    ThemeFile,
+    toArgbHex,
+    toPascalCase
+} from "../theme-generator";
+import type { ComposeThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Default options for Jetpack Compose theme generation
+export const DEFAULT_COMPOSE_THEME_IMPLEMENTATION: ComposeThemeImplementation = {
+    format: "compose",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "",
+    exportName: "Color",
+    packageName: "com.example.ui.theme",
+    materialVersion: "3",
+    includeDarkScheme: true,
+    generateThemeComposable: true
+};
+
+// lightColorScheme/darkColorScheme parameters; unresolved roles keep the Material baseline
+const MATERIAL3_ROLES: SchemeRole[] = [
+    { name: "primary", colors: ["primary.main"] },
+    { name: "onPrimary", colors: ["primary.contrast"], contentFor: "primary" },
+    { name: "primaryContainer", colors: ["primary.light"] },
+    { name: "onPrimaryContainer", colors: ["primary.dark"] },
+    { name: "secondary", colors: ["secondary.main"] },
+    { name: "onSecondary", colors: ["secondary.contrast"], contentFor: "secondary" },
+    { name: "secondaryContainer", colors: ["secondary.light"] },
+    { name: "onSecondaryContainer", colors: ["secondary.dark"] },
+    { name: "tertiary", colors: ["accent.main"] },
+    { name: "onTertiary", colors: ["accent.contrast"], contentFor: "tertiary" },
+    { name: "tertiaryContainer", colors: ["accent.light"] },
+    { name: "onTertiaryContainer", colors: ["accent.dark"] },
+    { name: "background", colors: ["background.default"] },
+    { name: "onBackground", colors: ["text.primary"] },
+    { name: "surface", colors: ["surface.default", "background.paper"] },
+    { name: "onSurface", colors: ["text.primary"] },
+    { name: "surfaceVariant", colors: ["surface.variant"] },
+    { name: "onSurfaceVariant", colors: ["text.secondary"] },
+    { name: "inverseSurface", colors: ["surface.inverse"] },
+    { name: "inverseOnSurface", colors: ["text.inverse"] },
+    { name: "error", colors: ["status.error"] },
+    { name: "onError", colors: [], contentFor: "error" },
+    { name: "errorContainer", colors: ["status.error-light"] },
+    { name: "outline", colors: ["border.default"] },
+    { name: "outlineVariant", colors: ["border.light"] }
+];
+
+// lightColors/darkColors parameters from androidx.compose.material
+const MATERIAL2_ROLES: SchemeRole[] = [
+    { name: "primary", colors: ["primary.main"] },
+    { name: "primaryVariant", colors: ["primary.dark"] },
+    { name: "secondary", colors: ["secondary.main", "accent.main"] },
+    { name: "secondaryVariant", colors: ["secondary.dark", "accent.dark"] },
+    { name: "background", colors: ["background.default"] },
+    { name: "surface", colors: ["surface.default", "background.paper"] },
+    { name: "error", colors: ["status.error"] },
+    { name: "onPrimary", colors: ["primary.contrast"], contentFor: "primary" },
+    { name: "onSecondary", colors: ["secondary.contrast", "accent.contrast"], contentFor: "secondary" },
+    { name: "onBackground", colors: ["text.primary"] },
+    { name: "onSurface", colors: ["text.primary"] },
+    { name: "onError", colors: [], contentFor: "error" }
+];
+
+/**
+ * Render a theme as Kotlin color schemes for Jetpack Compose, plus a Theme.kt composable
+ * that picks the light or dark scheme from the system setting
+ *
+ * Colors are written as Color(0xAARRGGBB) literals.
+ */
+export function createComposeTheme(theme: WebsiteThemeModel, impl: ComposeThemeImplementation): ThemeFile[] {
+    const files = [createThemeFile(theme, `${impl.exportName}.kt`, "text/x-kotlin", createColorFile(theme, impl))];
+
+    if (impl.generateThemeComposable) {
+        files.push(createThemeFile(theme, "Theme.kt", "text/x-kotlin", createThemeComposable(theme, impl)));
+    }
+
+    return files;
+}
+
+function createColorFile(theme: WebsiteThemeModel, impl: ComposeThemeImplementation): string {
+    const material3 = impl.materialVersion !== "2";
+    const roles = material3 ? MATERIAL3_ROLES : MATERIAL2_ROLES;
+    const [lightBuilder, darkBuilder] = material3 ? ["lightColorScheme", "darkColorScheme"] : ["lightColors", "darkColors"];
+    const library = material3 ? "androidx.compose.material3" : "androidx.compose.material";
+    const names = getSchemeNames(impl);
+
+    const lines: string[] = [];
+    if (impl.includeComments) {
+        lines.push(createHeaderComment(theme), "");
+    }
+    lines.push(`package ${impl.packageName}`, "");
+    if (impl.includeDarkScheme) {
+        lines.push(`import ${library}.${darkBuilder}`);
+    }
+    lines.push(`import ${library}.${lightBuilder}`, "import androidx.compose.ui.graphics.Color", "");
+
+    lines.push(...createScheme(names.light, lightBuilder, resolveRoles(theme.toJsObject(), roles)));
+    if (impl.includeDarkScheme) {
+        const dark = websiteThemeRepository.createDarkVariant(theme).toJsObject();
+        lines.push("", ...comment(impl, "Dark scheme from the theme's dark variant"));
+        lines.push(...createScheme(names.dark, darkBuilder, resolveRoles(dark, roles)));
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+function createScheme(name: string, builder: string, roles: Map<string, string>): string[] {
+    const parameters = Array.from(roles).map(([role, value]) => `    ${role} = Color(${toKotlinColor(value)})`);
+    return [`val ${name} = ${builder}(`, parameters.join(",\n"), ")"];
+}
+
+function createThemeComposable(theme: WebsiteThemeModel, impl: ComposeThemeImplementation): string {
+    const material3 = impl.materialVersion !== "2";
+    const library = material3 ? "androidx.compose.material3" : "androidx.compose.material";
+    const names = getSchemeNames(impl);
+    const scheme = impl.includeDarkScheme ? `if (darkTheme) ${names.dark} else ${names.light}` : names.light;
+
+    const lines: string[] = [];
+    if (impl.includeComments) {
+        lines.push(createHeaderComment(theme), "");
+    }
+    lines.push(
+        `package ${impl.packageName}`,
+        "",
+        ...(impl.includeDarkScheme ? ["import androidx.compose.foundation.isSystemInDarkTheme"] : []),
+        `import ${library}.MaterialTheme`,
+        "import androidx.compose.runtime.Composable",
+        "",
+        "@Composable",
+        `fun ${toPascalCase([theme.themeName], "App")}Theme(`,
+        ...(impl.includeDarkScheme ? ["    darkTheme: Boolean = isSystemInDarkTheme(),"] : []),
+        "    content: @Composable () -> Unit",
+        ") {",
+        "    MaterialTheme(",
+        `        ${material3 ? "colorScheme" : "colors"} = ${scheme},`,
+        "        content = content",
+        "    )",
+        "}"
+    );
+
+    return lines.join("\n") + "\n";
+}
+
+function getSchemeNames(impl: ComposeThemeImplementation): { light: string; dark: string } {
+    const prefix = impl.variablePrefix ? toPascalCase([impl.variablePrefix], "App") : "";
+    const suffix = impl.materialVersion === "2" ? "Colors" : "ColorScheme";
+    return { light: `${prefix}Light${suffix}`, dark: `${prefix}Dark${suffix}` };
+}
+
+// Kotlin color literals put the alpha channel first: 0xAARRGGBB
+function toKotlinColor(value: string): string {
+    return `0x${toArgbHex(value)}`;
+}
+
+function comment(impl: ComposeThemeImplementation, text: string): string[] {
+    return impl.includeComments ? [`// ${text}`] : [];
+}
+
+registerThemeCreator("compose", createComposeTheme, DEFAULT_COMPOSE_THEME_IMPLEMENTATION);
@@ -1,4 +1,143 @@
 /** Application to take a color theme file and render as an CSS theme file(s) */
 
-// Import theme format file
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import { colorCodeConverter, colorCodeFormatter, colorCodeParser } from "../models/color-code-format";
+import { createHeaderComment, createThemeFile, registerThemeCreator, ThemeFile } from "../theme-generator";
+import type { CssThemeImplementation } from "../ts-theme-types/theme-file-index";
 
+// Default options for CSS theme generation
+export const DEFAULT_CSS_THEME_IMPLEMENTATION: CssThemeImplementation = {
+    format: "css",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "--theme",
+    exportName: "theme",
+    rootSelector: ":root",
+    includeFallbacks: false,
+    generateDarkMode: false,
+    darkModeSelector: "@media (prefers-color-scheme: dark)"
+};
+
+// Properties that get a plain hex fallback for browsers without custom property support
+const FALLBACK_PROPERTIES: Array<{ selector: string; property: string; variable: string }> = [
+    { selector: "", property: "background-color", variable: "background-default" },
+    { selector: "", property: "color", variable: "text-primary" },
+    { selector: " a", property: "color", variable: "link-default" }
+];
+
+/**
+ * Render a theme as a CSS custom property sheet
+ */
+export function createCssTheme(theme: WebsiteThemeModel, impl: CssThemeImplementation): ThemeFile[] {
+    const prefix = impl.variablePrefix.startsWith("--")
+        ? impl.variablePrefix
+        : `--${impl.variablePrefix}`;
+    const variables = parseVariables(theme.toCssVariables(prefix));
+    const blocks: string[] = [];
+
+    if (impl.includeComments) {
+        blocks.push(createHeaderComment(theme, "css"));
+    }
+
+    blocks.push(createRule(impl.rootSelector, formatDeclarations(variables)));
+
+    if (impl.includeFallbacks) {
+        if (impl.includeComments) {
+            blocks.push("/* Hex fallbacks for browsers without custom property support */");
+        }
+        blocks.push(...createFallbackRules(impl.rootSelector, variables, prefix));
+    }
+
+    if (impl.generateDarkMode) {
+        const dark = websiteThemeRepository.createDarkVariant(theme);
+        const darkVariables = parseVariables(dark.toCssVariables(prefix));
+        const changed = new Map(
+            Array.from(darkVariables).filter(([name, value]) => variables.get(name) !== value)
+        );
+
+        const darkRules = [createRule(impl.rootSelector, formatDeclarations(changed))];
+        if (impl.includeFallbacks) {
+            darkRules.push(...createFallbackRules(impl.rootSelector, changed, prefix));
+        }
+
+        if (impl.includeComments) {
+            blocks.push("/* Dark mode */");
+        }
+        blocks.push(createDarkBlock(impl, darkRules));
+    }
+
+    const css = blocks.join("\n\n") + "\n";
+    const content = impl.minify ? minifyCss(css) : css;
+
+    return [createThemeFile(theme, `${impl.exportName}.css`, "text/css", content)];
+}
+
+// Split "--name: value;" lines into a name/value map
+function parseVariables(css: string): Map<string, string> {
+    const variables = new Map<string, string>();
+
+    for (const line of css.split("\n")) {
+        const match = line.match(/^\s*(--[^:]+):\s*(.+);\s*$/);
+        if (match) {
+            variables.set(match[1], match[2]);
+        }
+    }
+
+    return variables;
+}
+
+function formatDeclarations(variables: Map<string, string>): string[] {
+    return Array.from(variables).map(([name, value]) => `${name}: ${value};`);
+}
+
+function createRule(selector: string, declarations: string[]): string {
+    const body = declarations.map((line) => `  ${line}`).join("\n");
+    return `${selector} {\n${body}\n}`;
+}
+
+// Hex value first, then the var() that old browsers ignore
+function createFallbackRules(rootSelector: string, variables: Map<string, string>, prefix: string): string[] {
+    const rules = new Map<string, string[]>();
+
+    for (const fallback of FALLBACK_PROPERTIES) {
+        const name = `${prefix}-${fallback.variable}`;
+        const value = variables.get(name);
+        if (!value) continue;
+
+        const rgb = colorCodeParser.parseToRgb(value);
+        if (!rgb) continue;
+
+        const hex = colorCodeFormatter.formatHex(colorCodeConverter.rgbToHex(rgb));
+        const selector = `${rootSelector}${fallback.selector}`;
+        const declarations = rules.get(selector) || [];
+        declarations.push(`${fallback.property}: ${hex};`, `${fallback.property}: var(${name});`);
+        rules.set(selector, declarations);
+    }
+
+    return Array.from(rules).map(([selector, declarations]) => createRule(selector, declarations));
+}
+
+// Dark rules go in a media query, or are rescoped from the root selector to the dark selector
+function createDarkBlock(impl: CssThemeImplementation, rules: string[]): string {
+    if (impl.darkModeSelector.startsWith("@media")) {
+        const nested = rules
+            .map((rule) => rule.split("\n").map((line) => `  ${line}`).join("\n"))
+            .join("\n\n");
+        return `${impl.darkModeSelector} {\n${nested}\n}`;
+    }
+
+    return rules
+        .map((rule) => rule.replace(impl.rootSelector, impl.darkModeSelector))
+        .join("\n\n");
+}
+
+function minifyCss(css: string): string {
+    return css
+        .replace(/\/\*[\s\S]*?\*\//g, "")
+        .replace(/\s+/g, " ")
+        .replace(/\s*([{}:;,])\s*/g, "$1")
+        .replace(/;}/g, "}")
+        .trim();
+}
+
+registerThemeCreator("css", createCssTheme, DEFAULT_CSS_THEME_IMPLEMENTATION);
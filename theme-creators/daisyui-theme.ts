@@ -1,3 +1,191 @@
 /** Application to take a color theme file and render as an DaisyUI theme file(s) */
 
-// Import theme format file
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import { colorCodeConverter, colorCodeFormatter, colorCodeParser } from "../models/color-code-format";
+import {
+    createHeaderComment,
+    createThemeFile,
+    formatJsObject,
+    getContentColor,
+    registerThemeCreator,
+    ThemeFile,
+    toThemeSlug
+} from "../theme-generator";
+import type { DaisyuiThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+type ColorGroups = Record<string, Record<string, string>>;
+
+// Default options for DaisyUI theme generation
+export const DEFAULT_DAISYUI_THEME_IMPLEMENTATION: DaisyuiThemeImplementation = {
+    format: "daisyui",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "--theme",
+    exportName: "theme",
+    useTypeScript: true,
+    extendTheme: false,
+    baseTheme: "light",
+    generatePluginConfig: true,
+    includeCssVariables: false,
+    generateDarkVariant: false,
+    colorScheme: "light",
+    includeSemanticColors: true,
+    generateContentColors: true
+};
+
+// daisyUI semantic colors and the theme group/key that backs each one, in order of preference
+const SEMANTIC_COLORS: Array<{ name: string; sources: Array<[string, string]> }> = [
+    { name: "primary", sources: [["primary", "main"]] },
+    { name: "secondary", sources: [["secondary", "main"]] },
+    { name: "accent", sources: [["accent", "main"]] },
+    { name: "neutral", sources: [["surface", "inverse"], ["text", "primary"]] },
+    { name: "info", sources: [["status", "info"]] },
+    { name: "success", sources: [["status", "success"]] },
+    { name: "warning", sources: [["status", "warning"]] },
+    { name: "error", sources: [["status", "error"]] }
+];
+
+// daisyUI expects base-200 and base-300 to step darker than base-100, as a share of its lightness
+const BASE_STEPS: Array<{ name: string; factor: number }> = [
+    { name: "base-200", factor: 0.95 },
+    { name: "base-300", factor: 0.9 }
+];
+
+/**
+ * Render a theme as daisyUI theme objects, either inside a Tailwind config or as a standalone module
+ */
+export function createDaisyuiTheme(theme: WebsiteThemeModel, impl: DaisyuiThemeImplementation): ThemeFile[] {
+    const ext = impl.useTypeScript ? "ts" : "js";
+    const mimeType = impl.useTypeScript ? "text/typescript" : "text/javascript";
+    const slug = toThemeSlug(theme.themeName);
+
+    const themes: Array<{ name: string; colors: Record<string, string>; base: string }> = [
+        { name: slug, colors: toDaisyuiColors(theme.toJsObject(), impl, impl.colorScheme), base: impl.baseTheme }
+    ];
+
+    // A dark theme is already dark, so the variant only makes sense for light schemes
+    if (impl.generateDarkVariant && impl.colorScheme === "light") {
+        const dark = websiteThemeRepository.createDarkVariant(theme);
+        themes.push({ name: `${slug}-dark`, colors: toDaisyuiColors(dark.toJsObject(), impl, "dark"), base: "dark" });
+    }
+
+    const themeMap = themes
+        .map(({ name, colors, base }) => {
+            return `${JSON.stringify(name)}: ${formatTheme(colors, impl.extendTheme ? base : "", 2)}`;
+        });
+
+    const lines: string[] = [];
+    if (impl.includeComments) {
+        lines.push(createHeaderComment(theme), "");
+    }
+    if (impl.generatePluginConfig && impl.useTypeScript) {
+        lines.push(`import type { Config } from "tailwindcss";`);
+    }
+    if (impl.generatePluginConfig) {
+        lines.push(`import daisyui from "daisyui";`);
+    }
+    if (impl.extendTheme) {
+        lines.push(`import themes from "daisyui/src/theming/themes";`);
+    }
+    if (lines.length > 0 && lines[lines.length - 1] !== "") {
+        lines.push("");
+    }
+
+    if (impl.generatePluginConfig) {
+        const daisyuiConfig = [`    themes: [`, `      {`, ...indent(themeMap.join(",\n"), 8), `      }`, `    ],`];
+        if (themes.length > 1) {
+            daisyuiConfig.push(`    darkTheme: ${JSON.stringify(themes[1].name)},`);
+        }
+
+        if (!impl.useTypeScript) {
+            lines.push(`/** @type {import("tailwindcss").Config} */`);
+        }
+        lines.push(
+            `export default {`,
+            `  content: ["./src/**/*.{html,js,jsx,ts,tsx,vue,svelte}"],`,
+            `  plugins: [daisyui],`,
+            `  daisyui: {`,
+            ...daisyuiConfig,
+            `  },`,
+            impl.useTypeScript ? `} satisfies Config;` : `};`
+        );
+        return [createThemeFile(theme, `tailwind.config.${ext}`, mimeType, lines.join("\n") + "\n")];
+    }
+
+    // Standalone module, used as `daisyui: { themes: [theme] }`
+    if (impl.includeComments) {
+        lines.push(`// Add to your Tailwind config: daisyui: { themes: [${impl.exportName}] }`);
+    }
+    lines.push(`export const ${impl.exportName} = {`, ...indent(themeMap.join(",\n"), 2), `};`);
+    return [createThemeFile(theme, `${impl.exportName}.${ext}`, mimeType, lines.join("\n") + "\n")];
+}
+
+// daisyUI color keys for one theme, with content colors and optional custom properties
+function toDaisyuiColors(
+    colors: ColorGroups,
+    impl: DaisyuiThemeImplementation,
+    scheme: "light" | "dark"
+): Record<string, string> {
+    const result: Record<string, string> = { "color-scheme": scheme };
+
+    if (impl.includeSemanticColors) {
+        for (const { name, sources } of SEMANTIC_COLORS) {
+            const value = pickColor(colors, sources);
+            if (!value) continue;
+
+            result[name] = value;
+            if (impl.generateContentColors) {
+                // Brand groups carry a designed contrast color; everything else is computed
+                const group = sources[0][0];
+                result[`${name}-content`] = colors[group]?.contrast ?? getContentColor(value);
+            }
+        }
+    }
+
+    const base = pickColor(colors, [["background", "default"]]);
+    if (base) result["base-100"] = base;
+
+    const baseRgb = base ? colorCodeParser.parseToRgb(base) : null;
+    if (baseRgb) {
+        const hsl = colorCodeConverter.rgbToHsl(baseRgb);
+        for (const { name, factor } of BASE_STEPS) {
+            const rgb = colorCodeConverter.hslToRgb({ ...hsl, l: hsl.l * factor });
+            result[name] = colorCodeFormatter.formatHex(colorCodeConverter.rgbToHex(rgb));
+        }
+    }
+
+    const content = pickColor(colors, [["text", "primary"]]);
+    if (content) result["base-content"] = content;
+
+    if (impl.includeCssVariables) {
+        const prefix = impl.variablePrefix.startsWith("--") ? impl.variablePrefix : `--${impl.variablePrefix}`;
+        for (const [group, values] of Object.entries(colors)) {
+            for (const [key, value] of Object.entries(values)) {
+                result[`${prefix}-${group}-${key}`] = value;
+            }
+        }
+    }
+
+    return result;
+}
+
+function pickColor(colors: ColorGroups, sources: Array<[string, string]>): string | undefined {
+    for (const [group, key] of sources) {
+        const value = colors[group]?.[key];
+        if (value) return value;
+    }
+    return undefined;
+}
+
+// Theme object literal, spreading the daisyUI base theme first when extending one
+function formatTheme(colors: Record<string, string>, base: string, indentSize: number): string {
+    const formatted = formatJsObject(colors, indentSize);
+    if (!base) return formatted;
+    return formatted.replace("{\n", `{\n${" ".repeat(indentSize)}...themes[${JSON.stringify(base)}],\n`);
+}
+
+function indent(text: string, size: number): string[] {
+    return text.split("\n").map((line) => `${" ".repeat(size)}${line}`);
+}
+
+registerThemeCreator("daisyui", createDaisyuiTheme, DEFAULT_DAISYUI_THEME_IMPLEMENTATION);
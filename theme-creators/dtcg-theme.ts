@@ -0,0 +1,354 @@
+/** Application to take a color theme file and render as an Design Tokens (DTCG) theme file(s) */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { colorCodeConverter, colorCodeParser } from "../models/color-code-format";
+import type { ColorModel } from "../models/color";
+import { ColorPaletteModel, ColorPaletteRepository } from "../models/color-palette";
+import { ThemeColors, WebsiteThemeData, WebsiteThemeModel } from "../models/website-theme";
+import { createThemeFile, findSourcePaletteFile, registerThemeCreator, ThemeFile, toThemeSlug } from "../theme-generator";
+import type { DtcgThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+const SCHEMA_DIR = path.join(__dirname, "..", "json-schema");
+const DATA_DIR = path.join(__dirname, "..", "data");
+
+// $extensions key holding color-server data the DTCG format has no field for
+const EXTENSION_NAMESPACE = "com.color-server";
+
+// Theme color groups, in website-theme-schema.json order
+const THEME_GROUPS: Array<keyof ThemeColors> = [
+    "primary",
+    "secondary",
+    "accent",
+    "background",
+    "surface",
+    "text",
+    "border",
+    "status",
+    "interaction",
+    "link",
+    "shadow",
+    "overlay"
+];
+
+// Default options for Design Tokens theme generation
+export const DEFAULT_DTCG_THEME_IMPLEMENTATION: DtcgThemeImplementation = {
+    format: "dtcg",
+    includeComments: false,
+    minify: false,
+    variablePrefix: "color",
+    exportName: "theme",
+    useAliases: true,
+    includePalette: false,
+    includeDescriptions: true,
+    colorFormat: "hex",
+    prettyPrint: true,
+    indentSize: 2
+};
+
+/**
+ * A DTCG color value in object form
+ */
+export interface DtcgColorValue {
+    colorSpace: "srgb";
+    components: [number, number, number];
+    alpha?: number;
+    hex?: string;
+}
+
+/**
+ * A single design token; $value may be an alias such as "{color.primary.main}"
+ */
+export interface DtcgToken {
+    $type?: string;
+    $value: string | DtcgColorValue;
+    $description?: string;
+}
+
+/**
+ * A token group; keys without a $ prefix are child groups or tokens
+ */
+export interface DtcgTokenGroup {
+    $type?: string;
+    $description?: string;
+    $extensions?: Record<string, unknown>;
+    [key: string]: unknown;
+}
+
+/**
+ * Options for turning a DTCG file back into a theme
+ */
+export interface DtcgImportOptions {
+    /** Theme name used when the file does not carry one */
+    themeName?: string;
+    schemaDir?: string;
+}
+
+/**
+ * Render a theme as a DTCG design token file. Colors sit under the variablePrefix
+ * group; repeated values become aliases to the first token that holds them, and
+ * with includePalette they alias the source palette's color tokens instead.
+ */
+export function createDtcgTheme(theme: WebsiteThemeModel, impl: DtcgThemeImplementation): ThemeFile[] {
+    const tokens = createDtcgThemeTokens(theme, impl);
+    const indent = impl.prettyPrint && !impl.minify ? impl.indentSize : undefined;
+    const content = JSON.stringify(tokens, null, indent) + "\n";
+
+    return [createThemeFile(theme, `${impl.exportName}.tokens.json`, "application/design-tokens+json", content)];
+}
+
+/**
+ * Build the DTCG token tree for a theme
+ */
+export function createDtcgThemeTokens(theme: WebsiteThemeModel, impl: DtcgThemeImplementation): DtcgTokenGroup {
+    const rootPath = impl.variablePrefix ? [impl.variablePrefix] : [];
+    const colorGroup: DtcgTokenGroup = {};
+    // Normalized color -> path of the first token holding it, for aliases
+    const aliases = new Map<string, string>();
+
+    if (impl.includePalette) {
+        const source = loadSourcePalette(theme);
+        if (source) {
+            const palette = createDtcgPaletteTokens(source.palette, source.colors, impl);
+            colorGroup.palette = palette;
+            for (const [key, token] of Object.entries(palette)) {
+                if (key.startsWith("$")) continue;
+                const hex = toDtcgHex(toColorString((token as DtcgToken).$value));
+                if (hex && !aliases.has(hex)) {
+                    aliases.set(hex, [...rootPath, "palette", key].join("."));
+                }
+            }
+        }
+    }
+
+    for (const [group, values] of Object.entries(theme.toJSON().colors)) {
+        const node: DtcgTokenGroup = {};
+        for (const [key, value] of Object.entries(values as Record<string, string>)) {
+            if (key === "description") {
+                if (impl.includeDescriptions) node.$description = value;
+                continue;
+            }
+
+            const hex = toDtcgHex(value);
+            const alias = hex && impl.useAliases ? aliases.get(hex) : undefined;
+            node[key] = createColorToken(alias ? `{${alias}}` : value, impl);
+            if (hex && !aliases.has(hex)) {
+                aliases.set(hex, [...rootPath, group, key].join("."));
+            }
+        }
+        colorGroup[group] = node;
+    }
+
+    const root: DtcgTokenGroup = {};
+    if (impl.includeDescriptions && theme.themeDescription) {
+        root.$description = theme.themeDescription;
+    }
+    root.$extensions = { [EXTENSION_NAMESPACE]: { "theme-name": theme.themeName } };
+
+    return rootPath.length > 0 ? { ...root, [impl.variablePrefix]: colorGroup } : { ...root, ...colorGroup };
+}
+
+/**
+ * Build a token group with one color token per palette color, keyed by color name slug
+ */
+export function createDtcgPaletteTokens(
+    palette: ColorPaletteModel,
+    colors: Map<string, ColorModel[]>,
+    impl: Pick<DtcgThemeImplementation, "colorFormat" | "includeDescriptions"> = DEFAULT_DTCG_THEME_IMPLEMENTATION
+): DtcgTokenGroup {
+    const group: DtcgTokenGroup = {};
+    if (impl.includeDescriptions) {
+        group.$description = palette.description ?? `Colors from the ${palette.paletteName} palette`;
+    }
+
+    for (const color of Array.from(colors.values()).flat()) {
+        const hex = color.getHexString();
+        if (!hex) continue;
+
+        // Colors sharing a name get a numeric suffix
+        const slug = toThemeSlug(color.name) || "color";
+        let key = slug;
+        for (let index = 2; key in group; index++) {
+            key = `${slug}-${index}`;
+        }
+
+        const token = createColorToken(hex, impl);
+        if (impl.includeDescriptions) {
+            token.$description = color.name;
+        }
+        group[key] = token;
+    }
+
+    return group;
+}
+
+/**
+ * Turn a DTCG token file back into a theme. Aliases are resolved and color tokens
+ * are placed by their last two path segments, e.g. color.primary.main -> primary.main;
+ * tokens outside the theme's color groups (such as a palette group) are skipped.
+ */
+export function importDtcgTheme(source: string | DtcgTokenGroup, options: DtcgImportOptions = {}): WebsiteThemeModel {
+    const root = (typeof source === "string" ? JSON.parse(source) : source) as DtcgTokenGroup;
+    const tokens = new Map<string, DtcgToken>();
+    const groupDescriptions = new Map<string, string>();
+    collectTokens(root, [], undefined, tokens, groupDescriptions);
+
+    const colors: Record<string, Record<string, string>> = {};
+    for (const [tokenPath, token] of tokens) {
+        const segments = tokenPath.split(".");
+        const group = segments[segments.length - 2] as keyof ThemeColors;
+        const key = segments[segments.length - 1];
+        if (token.$type !== "color" || !THEME_GROUPS.includes(group)) continue;
+
+        colors[group] ??= {};
+        const description = groupDescriptions.get(segments.slice(0, -1).join("."));
+        if (description && !colors[group].description) {
+            colors[group].description = description;
+        }
+        colors[group][key] = toColorString(resolveAlias(token, tokens, new Set([tokenPath])));
+    }
+
+    const extension = root.$extensions?.[EXTENSION_NAMESPACE] as Record<string, unknown> | undefined;
+    const themeName = typeof extension?.["theme-name"] === "string" ? extension["theme-name"] : options.themeName;
+    const data: WebsiteThemeData = {
+        "theme-name": themeName ?? "Imported Theme",
+        ...(typeof root.$description === "string" ? { "theme-description": root.$description } : {}),
+        colors: Object.fromEntries(
+            THEME_GROUPS.filter((group) => colors[group]).map((group) => [group, colors[group]])
+        ) as unknown as ThemeColors
+    };
+
+    const theme = new WebsiteThemeModel(data, options.schemaDir ?? SCHEMA_DIR);
+    const validation = theme.validate();
+    if (!validation.valid) {
+        throw new Error(`Invalid design tokens theme: ${validation.errors.map((e) => e.message).join(", ")}`);
+    }
+
+    return theme;
+}
+
+/**
+ * Read a DTCG token file and turn it into a theme
+ */
+export function loadDtcgThemeFile(filePath: string, options: DtcgImportOptions = {}): WebsiteThemeModel {
+    const fallbackName = path.basename(filePath).replace(/(\.tokens)?\.json$/, "");
+    return importDtcgTheme(fs.readFileSync(filePath, "utf-8"), { themeName: fallbackName, ...options });
+}
+
+function createColorToken(value: string, impl: Pick<DtcgThemeImplementation, "colorFormat">): DtcgToken {
+    const isAlias = value.startsWith("{");
+    const hex = isAlias ? null : toDtcgHex(value);
+
+    return {
+        $type: "color",
+        $value: impl.colorFormat === "object" && hex ? toColorObject(hex) : hex ?? value
+    };
+}
+
+// Walk the token tree, inheriting $type from enclosing groups as the DTCG format specifies
+function collectTokens(
+    group: DtcgTokenGroup,
+    parentPath: string[],
+    inheritedType: string | undefined,
+    tokens: Map<string, DtcgToken>,
+    groupDescriptions: Map<string, string>
+): void {
+    const groupType = typeof group.$type === "string" ? group.$type : inheritedType;
+    if (typeof group.$description === "string") {
+        groupDescriptions.set(parentPath.join("."), group.$description);
+    }
+
+    for (const [key, child] of Object.entries(group)) {
+        if (key.startsWith("$") || typeof child !== "object" || child === null) continue;
+
+        const childPath = [...parentPath, key];
+        if ("$value" in child) {
+            const token = child as DtcgToken;
+            tokens.set(childPath.join("."), { ...token, $type: token.$type ?? groupType });
+        } else {
+            collectTokens(child as DtcgTokenGroup, childPath, groupType, tokens, groupDescriptions);
+        }
+    }
+}
+
+function resolveAlias(token: DtcgToken, tokens: Map<string, DtcgToken>, seen: Set<string>): string | DtcgColorValue {
+    const match = typeof token.$value === "string" ? token.$value.match(/^\{([^}]+)\}$/) : null;
+    if (!match) return token.$value;
+
+    const target = match[1];
+    if (seen.has(target)) {
+        throw new Error(`Circular design token alias: ${[...seen, target].join(" -> ")}`);
+    }
+    const referenced = tokens.get(target);
+    if (!referenced) {
+        throw new Error(`Unknown design token alias: {${target}}`);
+    }
+
+    return resolveAlias(referenced, tokens, new Set([...seen, target]));
+}
+
+// Uppercase #RRGGBB, or #RRGGBBAA when the color is translucent; null when unparseable
+function toDtcgHex(value: string): string | null {
+    const parsed = colorCodeParser.parseAuto(value);
+    if (!parsed) return null;
+
+    if (parsed.hex) {
+        const { r1, r2, g1, g2, b1, b2, a1, a2 } = parsed.hex;
+        const alpha = `${a1}${a2}`.toUpperCase();
+        return `#${r1}${r2}${g1}${g2}${b1}${b2}${alpha === "FF" ? "" : alpha}`.toUpperCase();
+    }
+
+    const rgb = colorCodeParser.parseToRgb(value);
+    if (!rgb) return null;
+    const { r1, r2, g1, g2, b1, b2 } = colorCodeConverter.rgbToHex(rgb);
+    // rgba()/hsla() alpha is the fourth argument
+    const alphaMatch = value.match(/,\s*([0-9.]+)\s*\)\s*$/);
+    const alpha = alphaMatch && /^(rgba|hsla)/i.test(value.trim()) ? parseFloat(alphaMatch[1]) : 1;
+
+    return `#${r1}${r2}${g1}${g2}${b1}${b2}${alpha < 1 ? toHexByte(alpha * 255) : ""}`;
+}
+
+function toColorObject(hex: string): DtcgColorValue {
+    const channels = [1, 3, 5, 7].map((start) => parseInt(hex.slice(start, start + 2), 16));
+    const [r, g, b] = channels.map((channel) => Math.round((channel / 255) * 10000) / 10000);
+    const color: DtcgColorValue = { colorSpace: "srgb", components: [r, g, b] };
+    if (hex.length === 9) {
+        color.alpha = Math.round((channels[3] / 255) * 10000) / 10000;
+    }
+    color.hex = hex.slice(0, 7);
+    return color;
+}
+
+// Theme files store hex; object values are converted back from their components
+function toColorString(value: string | DtcgColorValue): string {
+    if (typeof value === "string") {
+        return toDtcgHex(value) ?? value;
+    }
+
+    const alpha = value.alpha !== undefined && value.alpha < 1 ? toHexByte(value.alpha * 255) : "";
+    if (value.hex && /^#[0-9A-Fa-f]{6}$/.test(value.hex)) {
+        return `${value.hex.toUpperCase()}${alpha}`;
+    }
+    if (value.colorSpace !== "srgb") {
+        throw new Error(`Unsupported design token color space: ${value.colorSpace}`);
+    }
+    return `#${value.components.map((component) => toHexByte(component * 255)).join("")}${alpha}`;
+}
+
+function toHexByte(value: number): string {
+    return Math.round(Math.max(0, Math.min(255, value))).toString(16).toUpperCase().padStart(2, "0");
+}
+
+function loadSourcePalette(
+    theme: WebsiteThemeModel
+): { palette: ColorPaletteModel; colors: Map<string, ColorModel[]> } | undefined {
+    const paletteFile = findSourcePaletteFile(theme);
+    if (!paletteFile) return undefined;
+
+    const repository = new ColorPaletteRepository(SCHEMA_DIR);
+    const palette = repository.loadFromFile(paletteFile);
+    return { palette, colors: repository.loadAllColors(palette, DATA_DIR) };
+}
+
+registerThemeCreator("dtcg", createDtcgTheme, DEFAULT_DTCG_THEME_IMPLEMENTATION);
@@ -1,3 +1,222 @@
 /** Application to take a color theme file and render as an Emotion theme file(s) */
 
-// Import theme format file
+import { WebsiteThemeModel } from "../models/website-theme";
+import {
+    createCssInJsHook,
+    createCssInJsProvider,
+    createCssInJsThemeModule,
+    createHeaderComment,
+    createThemeFile,
+    CssInJsLibrary,
+    registerThemeCreator,
+    ThemeFile
+} from "../theme-generator";
+import type { EmotionThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Default options for Emotion theme generation
+export const DEFAULT_EMOTION_THEME_IMPLEMENTATION: EmotionThemeImplementation = {
+    format: "emotion",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "",
+    exportName: "theme",
+    useTypeScript: true,
+    generateProvider: true,
+    generateThemeDeclaration: true,
+    generateHook: false,
+    generateGlobalStyles: true,
+    emotionPackage: "react"
+};
+
+const EMOTION_LIBRARY: CssInJsLibrary = {
+    packageName: "@emotion/react",
+    providerAlias: "EmotionThemeProvider",
+    hookAlias: "useEmotionTheme"
+};
+
+/**
+ * A themed @emotion/styled component and the theme colors it applies
+ */
+interface StyledComponent {
+    name: string;
+    element: string;
+    /** CSS property and theme color path pairs */
+    styles: Array<[string, string]>;
+    /** Declarations for the &:hover rule */
+    hover?: Array<[string, string]>;
+}
+
+const STYLED_COMPONENTS: StyledComponent[] = [
+    {
+        name: "Surface",
+        element: "div",
+        styles: [["backgroundColor", "surface.default"], ["color", "text.primary"], ["borderColor", "border.default"]]
+    },
+    {
+        name: "Button",
+        element: "button",
+        styles: [["backgroundColor", "primary.main"], ["borderColor", "primary.main"], ["color", "primary.contrast"]],
+        hover: [["backgroundColor", "primary.dark"], ["borderColor", "primary.dark"]]
+    },
+    {
+        name: "Link",
+        element: "a",
+        styles: [["color", "link.default"]],
+        hover: [["color", "link.hover"]]
+    }
+];
+
+/**
+ * Render a theme as Emotion theme objects with an optional Theme declaration,
+ * <Global> styles, ThemeProvider and useTheme hook
+ *
+ * emotionPackage "styled" or "both" adds themed @emotion/styled components. ThemeProvider and
+ * <Global> come from @emotion/react in every case, and @emotion/styled reads its theme type from
+ * @emotion/react, so one augmentation covers both packages.
+ */
+export function createEmotionTheme(theme: WebsiteThemeModel, impl: EmotionThemeImplementation): ThemeFile[] {
+    const typed = impl.useTypeScript;
+    const ext = typed ? "ts" : "js";
+    const mimeType = typed ? "text/typescript" : "text/javascript";
+    const header = impl.includeComments ? [createHeaderComment(theme), ""] : [];
+    const colors = theme.toJsObject();
+    const declared = typed && impl.generateThemeDeclaration;
+
+    const file = (filepath: string, lines: string[]): ThemeFile =>
+        createThemeFile(theme, filepath, mimeType, [...header, ...lines].join("\n") + "\n");
+
+    const files = [file(`${impl.exportName}.${ext}`, createCssInJsThemeModule(theme, impl.exportName, typed))];
+
+    if (declared) {
+        files.push(file("emotion.d.ts", createThemeDeclaration(impl)));
+    }
+
+    if (impl.generateGlobalStyles) {
+        files.push(file(`GlobalStyles.${ext}x`, createGlobalStyles(impl, colors, typed && !declared)));
+    }
+
+    if (impl.generateProvider) {
+        const globalStyle = impl.generateGlobalStyles ? "GlobalStyles" : undefined;
+        files.push(file(`ThemeProvider.${ext}x`, createCssInJsProvider(EMOTION_LIBRARY, impl.exportName, typed, globalStyle)));
+    }
+
+    if (impl.emotionPackage !== "react") {
+        files.push(file(`styled.${ext}`, createStyledComponents(impl, colors, typed && !declared)));
+    }
+
+    if (impl.generateHook) {
+        // Without the Theme declaration the library hook returns an empty interface, so narrow it here
+        files.push(file(`use-theme.${ext}`, createCssInJsHook(EMOTION_LIBRARY, impl.exportName, typed && !declared)));
+    }
+
+    return files;
+}
+
+// Augments @emotion/react's empty Theme interface with the generated theme shape
+function createThemeDeclaration(impl: EmotionThemeImplementation): string[] {
+    const target = impl.emotionPackage === "styled"
+        ? "the theme prop of styled components"
+        : impl.emotionPackage === "both"
+            ? "the css prop, useTheme() and styled components"
+            : "the css prop and useTheme()";
+
+    return [
+        `import "@emotion/react";`,
+        `import type { Theme as AppTheme } from "./${impl.exportName}";`,
+        "",
+        ...comment(impl, `Types ${target}`),
+        `declare module "@emotion/react" {`,
+        `  export interface Theme extends AppTheme {}`,
+        `}`
+    ];
+}
+
+// styled() components reading their colors from the active theme; paths the theme lacks are skipped
+function createStyledComponents(
+    impl: EmotionThemeImplementation,
+    colors: Record<string, Record<string, string>>,
+    narrow: boolean
+): string[] {
+    const hasColor = ([, path]: [string, string]): boolean => {
+        const [group, key] = path.split(".");
+        return Boolean(colors[group]?.[key]);
+    };
+    const themeColors = narrow ? "(theme as AppTheme).colors" : "theme.colors";
+    const components = STYLED_COMPONENTS
+        .map((component) => ({
+            ...component,
+            styles: component.styles.filter(hasColor),
+            hover: (component.hover ?? []).filter(hasColor)
+        }))
+        .filter((component) => component.styles.length > 0);
+
+    return [
+        `import styled from "@emotion/styled";`,
+        ...(narrow ? [`import type { Theme as AppTheme } from "./${impl.exportName}";`] : []),
+        ...components.flatMap(({ name, element, styles, hover }) => [
+            "",
+            `export const ${name} = styled.${element}(({ theme }) => {`,
+            `  const colors = ${themeColors};`,
+            `  return {`,
+            ...styles.map(([property, path]) => `    ${property}: colors.${path},`),
+            ...(hover.length > 0
+                ? [
+                    `    "&:hover": {`,
+                    ...hover.map(([property, path]) => `      ${property}: colors.${path},`),
+                    `    },`
+                ]
+                : []),
+            `  };`,
+            `});`
+        ])
+    ];
+}
+
+// <Global> component applying the page background, text and link colors from the active theme
+function createGlobalStyles(
+    impl: EmotionThemeImplementation,
+    colors: Record<string, Record<string, string>>,
+    narrow: boolean
+): string[] {
+    const typed = impl.useTypeScript;
+    const rules: Array<[string, Array<[string, string]>]> = [
+        ["body", [["backgroundColor", "background.default"], ["color", "text.primary"]]]
+    ];
+    if (colors.link?.default) {
+        rules.push(["a", [["color", "link.default"]]]);
+        if (colors.link.hover) {
+            rules.push(["a:hover", [["color", "link.hover"]]]);
+        }
+    }
+    if (colors.border?.focus) {
+        rules.push([":focus-visible", [["outlineColor", "border.focus"]]]);
+    }
+
+    return [
+        `import { Global } from "@emotion/react";`,
+        ...(typed ? [`import type { CSSObject${narrow ? "" : ", Theme"} } from "@emotion/react";`] : []),
+        ...(narrow ? [`import type { Theme as AppTheme } from "./${impl.exportName}";`] : []),
+        "",
+        `export function globalStyles(theme${typed ? `: ${narrow ? "AppTheme" : "Theme"}): CSSObject` : ")"} {`,
+        `  return {`,
+        ...rules.flatMap(([selector, declarations]) => [
+            `    ${/^[a-z]+$/.test(selector) ? selector : `"${selector}"`}: {`,
+            ...declarations.map(([property, path]) => `      ${property}: theme.colors.${path},`),
+            `    },`
+        ]),
+        `  };`,
+        `}`,
+        "",
+        `export function GlobalStyles() {`,
+        ...(narrow
+            ? [`  return <Global styles={(theme) => globalStyles(theme as AppTheme)} />;`]
+            : [`  return <Global styles={globalStyles} />;`]),
+        `}`
+    ];
+}
+
+function comment(impl: EmotionThemeImplementation, text: string): string[] {
+    return impl.includeComments ? [`// ${text}`] : [];
+}
+
+registerThemeCreator("emotion", createEmotionTheme, DEFAULT_EMOTION_THEME_IMPLEMENTATION);
@@ -0,0 +1,127 @@
+/** Application to take a color theme file and render as a Flutter theme file(s) */
+
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import {
+    createHeaderComment,
+    createThemeFile,
+    registerThemeCreator,
+    resolveRoles,
+    SchemeRole,
+    ThemeFile,
+    toArgbHex,
+    toCamelCase
+} from "../theme-generator";
+import type { FlutterThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Default options for Flutter theme generation
+export const DEFAULT_FLUTTER_THEME_IMPLEMENTATION: FlutterThemeImplementation = {
+    format: "flutter",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "",
+    exportName: "app_theme",
+    includeDarkScheme: true,
+    generateThemeData: true,
+    useMaterial3: true
+};
+
+const COLOR_SCHEME_ROLES: SchemeRole[] = [
+    { name: "primary", colors: ["primary.main"] },
+    { name: "onPrimary", colors: ["primary.contrast"], contentFor: "primary" },
+    { name: "primaryContainer", colors: ["primary.light"] },
+    { name: "onPrimaryContainer", colors: ["primary.dark"] },
+    { name: "secondary", colors: ["secondary.main", "accent.main", "primary.main"] },
+    { name: "onSecondary", colors: ["secondary.contrast"], contentFor: "secondary" },
+    { name: "secondaryContainer", colors: ["secondary.light"] },
+    { name: "onSecondaryContainer", colors: ["secondary.dark"] },
+    { name: "tertiary", colors: ["accent.main"] },
+    { name: "onTertiary", colors: ["accent.contrast"], contentFor: "tertiary" },
+    { name: "tertiaryContainer", colors: ["accent.light"] },
+    { name: "onTertiaryContainer", colors: ["accent.dark"] },
+    { name: "error", colors: ["status.error"], baseline: { light: "#B3261E", dark: "#F2B8B5" } },
+    { name: "onError", colors: [], contentFor: "error" },
+    { name: "errorContainer", colors: ["status.error-light"] },
+    { name: "surface", colors: ["surface.default", "background.paper", "background.default"] },
+    { name: "onSurface", colors: ["text.primary"] },
+    { name: "surfaceContainerHighest", colors: ["surface.variant"] },
+    { name: "onSurfaceVariant", colors: ["text.secondary"] },
+    { name: "outline", colors: ["border.default"] },
+    { name: "outlineVariant", colors: ["border.light"] },
+    { name: "inverseSurface", colors: ["surface.inverse"] },
+    { name: "onInverseSurface", colors: ["text.inverse"] }
+];
+
+/**
+ * Render a theme as a Dart file with light and dark ColorScheme constants and the
+ * ThemeData built from them
+ *
+ * background.default becomes scaffoldBackgroundColor, since ColorScheme.background is deprecated.
+ */
+export function createFlutterTheme(theme: WebsiteThemeModel, impl: FlutterThemeImplementation): ThemeFile[] {
+    const names = {
+        lightScheme: toCamelCase([impl.variablePrefix, "light", "color", "scheme"]),
+        darkScheme: toCamelCase([impl.variablePrefix, "dark", "color", "scheme"]),
+        lightTheme: toCamelCase([impl.variablePrefix, "light", "theme"]),
+        darkTheme: toCamelCase([impl.variablePrefix, "dark", "theme"])
+    };
+    const light = theme.toJsObject();
+    const dark = websiteThemeRepository.createDarkVariant(theme).toJsObject();
+
+    const lines: string[] = [];
+    if (impl.includeComments) {
+        lines.push(createHeaderComment(theme), "");
+    }
+    lines.push("import 'package:flutter/material.dart';", "");
+
+    lines.push(...createColorScheme(names.lightScheme, "light", light));
+    if (impl.includeDarkScheme) {
+        lines.push("", ...comment(impl, "Dark scheme from the theme's dark variant"));
+        lines.push(...createColorScheme(names.darkScheme, "dark", dark));
+    }
+
+    if (impl.generateThemeData) {
+        lines.push("", ...createThemeData(names.lightTheme, names.lightScheme, light.background?.default, impl));
+        if (impl.includeDarkScheme) {
+            lines.push("", ...createThemeData(names.darkTheme, names.darkScheme, dark.background?.default, impl));
+        }
+    }
+
+    return [createThemeFile(theme, `${impl.exportName}.dart`, "application/dart", lines.join("\n") + "\n")];
+}
+
+function createColorScheme(
+    name: string,
+    brightness: "light" | "dark",
+    colors: Record<string, Record<string, string>>
+): string[] {
+    const parameters = Array.from(resolveRoles(colors, COLOR_SCHEME_ROLES, brightness)).map(
+        ([role, value]) => `  ${role}: Color(${toDartColor(value)}),`
+    );
+    return [`const ColorScheme ${name} = ColorScheme(`, `  brightness: Brightness.${brightness},`, ...parameters, ");"];
+}
+
+function createThemeData(
+    name: string,
+    scheme: string,
+    background: string | undefined,
+    impl: FlutterThemeImplementation
+): string[] {
+    return [
+        `final ThemeData ${name} = ThemeData(`,
+        `  useMaterial3: ${impl.useMaterial3},`,
+        `  colorScheme: ${scheme},`,
+        ...(background ? [`  scaffoldBackgroundColor: const Color(${toDartColor(background)}),`] : []),
+        ");"
+    ];
+}
+
+// Dart color literals put the alpha channel first: 0xAARRGGBB
+function toDartColor(value: string): string {
+    return `0x${toArgbHex(value)}`;
+}
+
+function comment(impl: FlutterThemeImplementation, text: string): string[] {
+    return impl.includeComments ? [`// ${text}`] : [];
+}
+
+registerThemeCreator("flutter", createFlutterTheme, DEFAULT_FLUTTER_THEME_IMPLEMENTATION);
@@ -0,0 +1,280 @@
+/** Application to take a color theme file and render as an iOS theme file(s) */
+
+import * as path from "path";
+
+import type { ColorModel } from "../models/color";
+import { colorCodeConverter, colorCodeParser } from "../models/color-code-format";
+import { ColorPaletteModel, ColorPaletteRepository } from "../models/color-palette";
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import {
+    createHeaderComment,
+    createThemeFile,
+    findSourcePaletteFile,
+    registerThemeCreator,
+    ThemeFile,
+    toArgbHex,
+    toCamelCase,
+    toPascalCase
+} from "../theme-generator";
+import type { IosThemeImplementation } from "../ts-theme-types/theme-file-index";
+import type { RgbValues } from "../ts-color-types/color-types-index.d";
+
+const SCHEMA_DIR = path.join(__dirname, "..", "json-schema");
+const DATA_DIR = path.join(__dirname, "..", "data");
+
+// Xcode writes this info block into every Contents.json and rewrites files without it
+const ASSET_INFO = { author: "xcode", version: 1 };
+
+// Swift keywords that need backticks when used as a property name
+const SWIFT_KEYWORDS = new Set([
+    "as", "break", "case", "catch", "class", "continue", "default", "defer", "do", "else", "enum",
+    "extension", "false", "for", "func", "guard", "if", "import", "in", "init", "internal", "is",
+    "let", "nil", "operator", "private", "protocol", "public", "repeat", "return", "self", "static",
+    "struct", "subscript", "super", "switch", "throw", "throws", "true", "try", "var", "where", "while"
+]);
+
+// Default options for iOS theme generation
+export const DEFAULT_IOS_THEME_IMPLEMENTATION: IosThemeImplementation = {
+    format: "ios",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "",
+    exportName: "Palette",
+    assetCatalogName: "Assets",
+    includeDarkAppearance: true,
+    includePalette: false,
+    generateSwiftExtension: true,
+    componentFormat: "float"
+};
+
+/**
+ * An sRGB color with 0-255 channels and a 0-1 alpha
+ */
+interface SrgbColor extends RgbValues {
+    alpha: number;
+}
+
+/**
+ * One .colorset entry; dark is only set when it differs from the light appearance
+ */
+interface ColorAsset {
+    name: string;
+    light: SrgbColor;
+    dark?: SrgbColor;
+}
+
+/**
+ * A folder of colorsets; namespaced folders prefix their asset names (DeepSea/abyss)
+ */
+interface AssetFolder {
+    namespace?: string;
+    comment: string;
+    assets: ColorAsset[];
+}
+
+/**
+ * Render a theme as an Xcode asset catalog with one colorset per theme color, plus a
+ * Color+Palette.swift extension exposing each colorset as a SwiftUI Color
+ *
+ * Dark appearances come from the theme's dark variant. The source palette's colors can be
+ * added in a namespaced folder.
+ */
+export function createIosTheme(theme: WebsiteThemeModel, impl: IosThemeImplementation): ThemeFile[] {
+    const folders: AssetFolder[] = [{ comment: "Theme colors", assets: createThemeAssets(theme, impl) }];
+
+    if (impl.includePalette) {
+        const paletteFile = findSourcePaletteFile(theme);
+        if (paletteFile) {
+            const repository = new ColorPaletteRepository(SCHEMA_DIR);
+            const palette = repository.loadFromFile(paletteFile);
+            folders.push(createPaletteFolder(palette, repository.loadAllColors(palette, DATA_DIR)));
+        }
+    }
+
+    const header = createHeaderComment(theme);
+    return createCatalogFiles(folders, header, impl).map(([filepath, mimeType, content]) =>
+        createThemeFile(theme, filepath, mimeType, content)
+    );
+}
+
+/**
+ * Render a palette's colors as colorsets in a folder named after the palette, plus the
+ * matching Color extension (Color.DeepSea.abyss)
+ *
+ * Components come from each color file's rgb values, falling back to its hex code.
+ */
+export function createIosPaletteAssets(
+    palette: ColorPaletteModel,
+    colors: Map<string, ColorModel[]>,
+    impl: IosThemeImplementation = DEFAULT_IOS_THEME_IMPLEMENTATION
+): ThemeFile[] {
+    const header = createHeaderComment({ themeName: palette.paletteName, themeDescription: palette.description });
+    return createCatalogFiles([createPaletteFolder(palette, colors)], header, impl).map(
+        ([filepath, mimeType, content]) => ({
+            themeName: palette.paletteName,
+            filename: path.basename(filepath),
+            filepath,
+            mimeType,
+            content
+        })
+    );
+}
+
+function createThemeAssets(theme: WebsiteThemeModel, impl: IosThemeImplementation): ColorAsset[] {
+    const dark = impl.includeDarkAppearance
+        ? websiteThemeRepository.createDarkVariant(theme).toJsObject()
+        : undefined;
+    const assets: ColorAsset[] = [];
+
+    for (const [group, values] of Object.entries(theme.toJsObject())) {
+        for (const [key, value] of Object.entries(values)) {
+            const light = parseSrgb(value);
+            if (!light) continue;
+
+            const darkValue = dark?.[group]?.[key];
+            const darkColor = darkValue && darkValue !== value ? parseSrgb(darkValue) : null;
+            assets.push({
+                name: toCamelCase([impl.variablePrefix, group, key], "color"),
+                light,
+                ...(darkColor ? { dark: darkColor } : {})
+            });
+        }
+    }
+
+    return assets;
+}
+
+function createPaletteFolder(palette: ColorPaletteModel, colors: Map<string, ColorModel[]>): AssetFolder {
+    const assets: ColorAsset[] = [];
+    const names = new Set<string>();
+
+    for (const color of Array.from(colors.values()).flat()) {
+        const light = toSrgb(color);
+        if (!light) continue;
+
+        // Colors sharing a name get a numeric suffix
+        const base = toCamelCase([color.name], "color") || "color";
+        let name = base;
+        for (let index = 2; names.has(name); index++) {
+            name = `${base}${index}`;
+        }
+        names.add(name);
+        assets.push({ name, light });
+    }
+
+    return {
+        namespace: toPascalCase([palette.paletteName], "color") || "Palette",
+        comment: `Colors from the ${palette.paletteName} palette`,
+        assets
+    };
+}
+
+// [filepath, mimeType, content] for the Swift extension (first) and every Contents.json
+function createCatalogFiles(
+    folders: AssetFolder[],
+    header: string,
+    impl: IosThemeImplementation
+): Array<[string, string, string]> {
+    const catalog = `${impl.assetCatalogName}.xcassets`;
+    const files: Array<[string, string, string]> = [];
+
+    if (impl.generateSwiftExtension) {
+        files.push([`Color+${impl.exportName}.swift`, "text/x-swift", createSwiftExtension(folders, header, impl)]);
+    }
+
+    files.push([`${catalog}/Contents.json`, "application/json", toContentsJson({ info: ASSET_INFO }, impl)]);
+
+    for (const folder of folders) {
+        const dir = folder.namespace ? `${catalog}/${folder.namespace}` : catalog;
+        if (folder.namespace) {
+            const contents = { info: ASSET_INFO, properties: { "provides-namespace": true } };
+            files.push([`${dir}/Contents.json`, "application/json", toContentsJson(contents, impl)]);
+        }
+
+        for (const asset of folder.assets) {
+            const colors = [
+                { color: createColorEntry(asset.light, impl), idiom: "universal" },
+                ...(asset.dark
+                    ? [{
+                        appearances: [{ appearance: "luminosity", value: "dark" }],
+                        color: createColorEntry(asset.dark, impl),
+                        idiom: "universal"
+                    }]
+                    : [])
+            ];
+            files.push([
+                `${dir}/${asset.name}.colorset/Contents.json`,
+                "application/json",
+                toContentsJson({ colors, info: ASSET_INFO }, impl)
+            ]);
+        }
+    }
+
+    return files;
+}
+
+function createColorEntry(color: SrgbColor, impl: IosThemeImplementation): object {
+    const channel = (value: number): string =>
+        impl.componentFormat === "integer" ? String(value) : (value / 255).toFixed(3);
+
+    return {
+        "color-space": "srgb",
+        components: {
+            alpha: color.alpha.toFixed(3),
+            blue: channel(color.b),
+            green: channel(color.g),
+            red: channel(color.r)
+        }
+    };
+}
+
+function createSwiftExtension(folders: AssetFolder[], header: string, impl: IosThemeImplementation): string {
+    const lines: string[] = [];
+    if (impl.includeComments) {
+        lines.push(header, "");
+    }
+    lines.push("import SwiftUI", "", "extension Color {");
+
+    folders.forEach((folder, index) => {
+        if (index > 0) lines.push("");
+
+        const indent = folder.namespace ? "        " : "    ";
+        if (impl.includeComments) lines.push(`    // ${folder.comment}`);
+        if (folder.namespace) lines.push(`    enum ${folder.namespace} {`);
+        for (const asset of folder.assets) {
+            const assetName = folder.namespace ? `${folder.namespace}/${asset.name}` : asset.name;
+            lines.push(`${indent}static let ${toSwiftIdentifier(asset.name)} = Color("${assetName}")`);
+        }
+        if (folder.namespace) lines.push("    }");
+    });
+
+    lines.push("}");
+    return lines.join("\n") + "\n";
+}
+
+function toContentsJson(contents: object, impl: IosThemeImplementation): string {
+    return impl.minify ? JSON.stringify(contents) : JSON.stringify(contents, null, 2) + "\n";
+}
+
+// Theme values may be any supported color code; only 8-digit hex carries alpha
+function parseSrgb(value: string): SrgbColor | null {
+    const argb = toArgbHex(value);
+    const rgb = colorCodeParser.parseToRgb(value);
+    if (!argb || !rgb) return null;
+
+    // Alpha from hex8 and rgba()/hsla() alike, via the shared AARRGGBB form
+    return { ...rgb, alpha: parseInt(argb.slice(0, 2), 16) / 255 };
+}
+
+// Color files carry rgb values; older files may only have a hex code
+function toSrgb(color: ColorModel): SrgbColor | null {
+    const codes = color.toJSON()["color-codes"];
+    const rgb = codes.rgb?.values ?? (codes.hex ? colorCodeConverter.hexToRgb(codes.hex.values) : null);
+    return rgb ? { r: rgb.r, g: rgb.g, b: rgb.b, alpha: 1 } : null;
+}
+
+function toSwiftIdentifier(name: string): string {
+    return SWIFT_KEYWORDS.has(name) ? `\`${name}\`` : name;
+}
+
+registerThemeCreator("ios", createIosTheme, DEFAULT_IOS_THEME_IMPLEMENTATION);
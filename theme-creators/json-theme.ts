@@ -1,4 +1,110 @@
 /** Application to take a color theme file and render as an JSON theme file(s) */
 
-// Import theme format file
+import * as fs from "fs";
+import * as path from "path";
 
+import { WebsiteThemeModel } from "../models/website-theme";
+import { createThemeFile, findSourcePaletteFile, registerThemeCreator, ThemeFile } from "../theme-generator";
+import type { JsonThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Package manifest used to fill in the metadata block
+const PACKAGE_FILE = path.join(__dirname, "..", "package.json");
+
+// Default options for JSON theme generation
+export const DEFAULT_JSON_THEME_IMPLEMENTATION: JsonThemeImplementation = {
+    format: "json",
+    includeComments: false,
+    minify: false,
+    variablePrefix: "",
+    exportName: "theme",
+    prettyPrint: true,
+    indentSize: 4,
+    includeSchema: true,
+    schemaUrl: "website-theme-schema.json",
+    flattenStructure: false,
+    includeMetadata: false
+};
+
+/**
+ * Metadata block describing where and when a theme export was produced
+ */
+interface JsonThemeMetadata {
+    generator: string;
+    "generator-version": string;
+    "source-palette"?: string;
+    "date-created": string;
+}
+
+/**
+ * Render a theme as JSON, either in the website theme schema shape or flattened
+ * to "group.key" color entries
+ *
+ * The $schema pointer is only written for the nested shape, since the flattened
+ * document no longer validates against website-theme-schema.json.
+ */
+export function createJsonTheme(theme: WebsiteThemeModel, impl: JsonThemeImplementation): ThemeFile[] {
+    const data: Record<string, unknown> = {};
+
+    if (impl.includeSchema && !impl.flattenStructure) {
+        data.$schema = impl.schemaUrl;
+    }
+
+    data["theme-name"] = theme.themeName;
+    if (theme.themeDescription) {
+        data["theme-description"] = theme.themeDescription;
+    }
+
+    if (impl.includeMetadata) {
+        data.metadata = createMetadata(theme, impl);
+    }
+
+    data.colors = impl.flattenStructure
+        ? flattenColors(theme.toJsObject(), impl.variablePrefix)
+        : theme.toJSON().colors;
+
+    const indent = impl.prettyPrint && !impl.minify ? impl.indentSize : undefined;
+    const content = JSON.stringify(data, null, indent) + "\n";
+
+    return [createThemeFile(theme, `${impl.exportName}.json`, "application/json", content)];
+}
+
+// "primary.main": "#003049" entries, optionally under a "prefix." namespace
+function flattenColors(colors: Record<string, Record<string, string>>, prefix: string): Record<string, string> {
+    const flat: Record<string, string> = {};
+
+    for (const [group, values] of Object.entries(colors)) {
+        for (const [key, value] of Object.entries(values)) {
+            flat[[prefix, group, key].filter(Boolean).join(".")] = value;
+        }
+    }
+
+    return flat;
+}
+
+function createMetadata(theme: WebsiteThemeModel, impl: JsonThemeImplementation): JsonThemeMetadata {
+    const pkg = readJsonFile(PACKAGE_FILE);
+    const sourcePalette = impl.sourcePalette ?? findSourcePalette(theme);
+
+    return {
+        generator: typeof pkg?.name === "string" ? pkg.name : "color-server",
+        "generator-version": typeof pkg?.version === "string" ? pkg.version : "0.0.0",
+        ...(sourcePalette ? { "source-palette": sourcePalette } : {}),
+        "date-created": new Date().toISOString().slice(0, 10)
+    };
+}
+
+function findSourcePalette(theme: WebsiteThemeModel): string | undefined {
+    const paletteFile = findSourcePaletteFile(theme);
+    const palette = paletteFile ? readJsonFile(paletteFile) : undefined;
+    return typeof palette?.["palette-name"] === "string" ? palette["palette-name"] : undefined;
+}
+
+function readJsonFile(filePath: string): Record<string, unknown> | undefined {
+    try {
+        return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    } catch (error) {
+        return undefined;
+    }
+}
+
+registerThemeCreator("json", createJsonTheme, DEFAULT_JSON_THEME_IMPLEMENTATION);
@@ -1,3 +1,149 @@
 /** Application to take a color theme file and render as an Less theme file(s) */
 
-// Import theme format file
+import { WebsiteThemeModel } from "../models/website-theme";
+import { createHeaderComment, createThemeFile, registerThemeCreator, ThemeFile } from "../theme-generator";
+import type { LessThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Default options for Less theme generation
+export const DEFAULT_LESS_THEME_IMPLEMENTATION: LessThemeImplementation = {
+    format: "less",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "",
+    exportName: "theme",
+    generateMixins: true,
+    generatePartial: false,
+    useLazyEvaluation: false
+};
+
+/**
+ * Render a theme as Less variables with optional helper mixins
+ */
+export function createLessTheme(theme: WebsiteThemeModel, impl: LessThemeImplementation): ThemeFile[] {
+    const prefix = impl.variablePrefix.replace(/^@/, "");
+    const variableName = (group: string, key: string): string =>
+        prefix ? `${prefix}-${group}-${key}` : `${group}-${key}`;
+    const mixinPrefix = prefix || impl.exportName;
+
+    const variables = createVariables(theme, impl, variableName);
+    const variablesFile = `${impl.exportName}-variables.less`;
+    const files: ThemeFile[] = [];
+
+    const mainSections: string[] = [];
+    if (impl.includeComments) {
+        mainSections.push(createHeaderComment(theme));
+    }
+
+    if (impl.generatePartial) {
+        const partial = impl.includeComments ? [createHeaderComment(theme), variables] : [variables];
+        files.push(createThemeFile(theme, variablesFile, "text/x-less", finish(partial, impl)));
+        mainSections.push(`@import "${variablesFile}";`);
+    } else {
+        mainSections.push(variables);
+    }
+
+    if (impl.generateMixins) {
+        mainSections.push(createMixins(theme, impl, mixinPrefix, prefix, variableName));
+    }
+
+    // The main file comes first so it is the one served for single-file exports
+    files.unshift(createThemeFile(theme, `${impl.exportName}.less`, "text/x-less", finish(mainSections, impl)));
+    return files;
+}
+
+// Keys a group's other colors are derived from, in order of preference
+const GROUP_BASE_KEYS = ["main", "default"];
+
+// "@group-key: value;" lines, optionally referencing the group's base color when a color repeats it
+function createVariables(
+    theme: WebsiteThemeModel,
+    impl: LessThemeImplementation,
+    variableName: (group: string, key: string) => string
+): string {
+    const lines: string[] = [];
+
+    if (impl.includeComments) {
+        lines.push("// Theme colors");
+        if (impl.useLazyEvaluation) {
+            lines.push("// Colors repeating their group's main color reference it, so overriding it updates them too");
+        }
+    }
+
+    for (const [group, colors] of Object.entries(theme.toJsObject())) {
+        // Only aliases within a group are structural; equal colors in other groups are a coincidence
+        const baseKey = GROUP_BASE_KEYS.find((key) => colors[key] !== undefined);
+        const base = baseKey ? colors[baseKey].toUpperCase() : undefined;
+
+        for (const [key, value] of Object.entries(colors)) {
+            const name = variableName(group, key);
+
+            if (impl.useLazyEvaluation && baseKey && key !== baseKey && value.toUpperCase() === base) {
+                lines.push(`@${name}: @${variableName(group, baseKey)};`);
+            } else {
+                lines.push(`@${name}: ${value};`);
+            }
+        }
+    }
+
+    return lines.join("\n");
+}
+
+// Mixins look colors up by role name through Less variable variables (@@name)
+function createMixins(
+    theme: WebsiteThemeModel,
+    impl: LessThemeImplementation,
+    mixinPrefix: string,
+    prefix: string,
+    variableName: (group: string, key: string) => string
+): string {
+    const lookup = (key: string): string => (prefix ? `"${prefix}-@{role}-${key}"` : `"@{role}-${key}"`);
+    const comment = (text: string): string => (impl.includeComments ? `// ${text}\n` : "");
+    const customProperties = Object.entries(theme.toJsObject()).flatMap(([group, colors]) =>
+        Object.keys(colors).map((key) => `  --${mixinPrefix}-${group}-${key}: @${variableName(group, key)};`)
+    );
+
+    return [
+        comment("Button colors for a brand role, e.g. .theme-button(secondary)") +
+        [
+            `.${mixinPrefix}-button(@role: primary) {`,
+            `  @background: ${lookup("main")};`,
+            `  @text: ${lookup("contrast")};`,
+            `  @hover: ${lookup("dark")};`,
+            `  background-color: @@background;`,
+            `  border-color: @@background;`,
+            `  color: @@text;`,
+            ``,
+            `  &:hover,`,
+            `  &:focus {`,
+            `    background-color: @@hover;`,
+            `    border-color: @@hover;`,
+            `  }`,
+            `}`
+        ].join("\n"),
+        comment("Text color for a brand role") +
+        [
+            `.${mixinPrefix}-text(@role: primary) {`,
+            `  @text: ${lookup("main")};`,
+            `  color: @@text;`,
+            `}`
+        ].join("\n"),
+        comment("Emit every theme color as a CSS custom property") +
+        [`.${mixinPrefix}-css-variables() {`, ...customProperties, `}`].join("\n")
+    ].join("\n\n");
+}
+
+function finish(sections: string[], impl: LessThemeImplementation): string {
+    const less = sections.join("\n\n") + "\n";
+    return impl.minify ? minifyLess(less) : less;
+}
+
+function minifyLess(less: string): string {
+    return less
+        .replace(/^\s*\/\/.*$/gm, "")
+        .replace(/\s+/g, " ")
+        .replace(/\s*([{};,])\s*/g, "$1")
+        .replace(/:\s+/g, ":")
+        .trim();
+}
+
+registerThemeCreator("less", createLessTheme, DEFAULT_LESS_THEME_IMPLEMENTATION);
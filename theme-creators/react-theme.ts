@@ -1,3 +1,379 @@
 /** Application to take a color theme file and render as an React,js theme file(s) */
 
-// Import theme format file
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import { createHeaderComment, createThemeFile, formatJsObject, formatTsInterface, registerThemeCreator, ThemeFile } from "../theme-generator";
+import type { ReactThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Default options for React theme generation
+export const DEFAULT_REACT_THEME_IMPLEMENTATION: ReactThemeImplementation = {
+    format: "react",
+    useTypeScript: true,
+    useJsx: true,
+    defaultExport: false,
+    includeTypes: true,
+    generateProvider: true,
+    generateHook: true,
+    stateManagement: "context"
+};
+
+// Module holding each state manager's mode, relative to the generated files
+const STATE_MODULES: Record<ReactThemeImplementation["stateManagement"], string> = {
+    context: "theme-context",
+    redux: "theme-slice",
+    zustand: "theme-store",
+    jotai: "theme-atoms",
+    none: ""
+};
+
+/**
+ * Render a theme as typed light/dark theme objects with a ThemeProvider and useTheme hook
+ * backed by React context or the selected state manager
+ */
+export function createReactTheme(theme: WebsiteThemeModel, impl: ReactThemeImplementation): ThemeFile[] {
+    // Untyped TypeScript fails strict checks, so output without annotations is plain JavaScript
+    const typed = isTyped(impl);
+    const ext = typed ? "ts" : "js";
+    const componentExt = impl.useJsx ? `${ext}x` : ext;
+    const mimeType = typed ? "text/typescript" : "text/javascript";
+    const header = createHeaderComment(theme);
+    const files: ThemeFile[] = [];
+
+    const file = (name: string, extension: string, lines: string[]): ThemeFile =>
+        createThemeFile(theme, `${name}.${extension}`, mimeType, [header, "", ...lines].join("\n") + "\n");
+
+    files.push(file("theme", ext, createThemeModule(theme, impl)));
+
+    // Without a state manager there is no active mode to provide or read
+    if (impl.stateManagement === "none") {
+        return files;
+    }
+
+    const stateModule = STATE_MODULES[impl.stateManagement];
+    if (impl.stateManagement !== "context" || impl.generateProvider || impl.generateHook) {
+        files.push(file(stateModule, ext, createStateModule(impl)));
+    }
+    if (impl.generateProvider) {
+        files.push(file("ThemeProvider", componentExt, createProvider(impl)));
+    }
+    if (impl.generateHook) {
+        files.push(file("use-theme", ext, createHook(impl)));
+    }
+
+    return files;
+}
+
+// Light and dark theme objects plus a helper that applies one as CSS custom properties
+function createThemeModule(theme: WebsiteThemeModel, impl: ReactThemeImplementation): string[] {
+    const typed = isTyped(impl);
+    const light = theme.toJsObject();
+    const dark = websiteThemeRepository.createDarkVariant(theme).toJsObject();
+    const lines: string[] = [];
+
+    if (typed) {
+        lines.push(formatTsInterface("ThemeColors", light), "", `export type ThemeMode = "light" | "dark";`, "");
+    }
+
+    lines.push(
+        `export const lightTheme${typed ? ": ThemeColors" : ""} = ${formatJsObject(light)};`,
+        "",
+        `export const darkTheme${typed ? ": ThemeColors" : ""} = ${formatJsObject(dark)};`,
+        "",
+        `export const themes${typed ? ": Record<ThemeMode, ThemeColors>" : ""} = {`,
+        `  light: lightTheme,`,
+        `  dark: darkTheme,`,
+        `};`,
+        "",
+        `// Expose the active theme as --theme-<group>-<key> custom properties`,
+        `export function applyThemeVariables(${typed
+            ? "theme: ThemeColors, root: HTMLElement = document.documentElement): void"
+            : "theme, root = document.documentElement)"} {`,
+        `  for (const [group, colors] of Object.entries(theme)) {`,
+        `    for (const [key, value] of Object.entries(colors${typed ? " as Record<string, string>" : ""})) {`,
+        `      root.style.setProperty(\`--theme-\${group}-\${key}\`, value);`,
+        `    }`,
+        `  }`,
+        `}`
+    );
+
+    if (impl.defaultExport) {
+        lines.push("", `export default themes;`);
+    }
+
+    return lines;
+}
+
+// React context, Redux slice, zustand store or jotai atoms holding the active mode
+function createStateModule(impl: ReactThemeImplementation): string[] {
+    const typed = isTyped(impl);
+    const typeImport = (names: string, from: string): string[] =>
+        typed ? [`import type { ${names} } from "${from}";`] : [];
+
+    switch (impl.stateManagement) {
+        case "redux":
+            return [
+                `import { createSlice } from "@reduxjs/toolkit";`,
+                ...typeImport("PayloadAction", "@reduxjs/toolkit"),
+                ...typeImport("ThemeMode", "./theme"),
+                "",
+                ...(typed ? [`export interface ThemeState {`, `  mode: ThemeMode;`, `}`, ""] : []),
+                `const initialState${typed ? ": ThemeState" : ""} = { mode: "light" };`,
+                "",
+                `// Add to your store as \`theme: themeReducer\``,
+                `export const themeSlice = createSlice({`,
+                `  name: "theme",`,
+                `  initialState,`,
+                `  reducers: {`,
+                `    setThemeMode(state, action${typed ? ": PayloadAction<ThemeMode>" : ""}) {`,
+                `      state.mode = action.payload;`,
+                `    },`,
+                `    toggleThemeMode(state) {`,
+                `      state.mode = state.mode === "light" ? "dark" : "light";`,
+                `    },`,
+                `  },`,
+                `});`,
+                "",
+                `export const { setThemeMode, toggleThemeMode } = themeSlice.actions;`,
+                `export const themeReducer = themeSlice.reducer;`
+            ];
+
+        case "zustand":
+            return [
+                `import { create } from "zustand";`,
+                `import { themes } from "./theme";`,
+                ...typeImport("ThemeColors, ThemeMode", "./theme"),
+                "",
+                ...(typed
+                    ? [
+                        `export interface ThemeState {`,
+                        `  mode: ThemeMode;`,
+                        `  theme: ThemeColors;`,
+                        `  setMode: (mode: ThemeMode) => void;`,
+                        `  toggleMode: () => void;`,
+                        `}`,
+                        ""
+                    ]
+                    : []),
+                `export const useThemeStore = create${typed ? "<ThemeState>()" : ""}((set, get) => ({`,
+                `  mode: "light",`,
+                `  theme: themes.light,`,
+                `  setMode: (mode) => set({ mode, theme: themes[mode] }),`,
+                `  toggleMode: () => get().setMode(get().mode === "light" ? "dark" : "light"),`,
+                `}));`
+            ];
+
+        case "jotai":
+            return [
+                `import { atom } from "jotai";`,
+                `import { themes } from "./theme";`,
+                ...typeImport("ThemeMode", "./theme"),
+                "",
+                `export const themeModeAtom = atom${typed ? "<ThemeMode>" : ""}("light");`,
+                "",
+                `export const themeAtom = atom((get) => themes[get(themeModeAtom)]);`
+            ];
+
+        default:
+            return [
+                `import { createContext } from "react";`,
+                ...typeImport("ThemeColors, ThemeMode", "./theme"),
+                "",
+                ...(typed
+                    ? [
+                        `export interface ThemeContextValue {`,
+                        `  theme: ThemeColors;`,
+                        `  mode: ThemeMode;`,
+                        `  setMode: (mode: ThemeMode) => void;`,
+                        `  toggleMode: () => void;`,
+                        `}`,
+                        ""
+                    ]
+                    : []),
+                `export const ThemeContext = createContext${typed ? "<ThemeContextValue | null>" : ""}(null);`
+            ];
+    }
+}
+
+// Provider that applies the active theme to the document, and owns the mode when using context
+function createProvider(impl: ReactThemeImplementation): string[] {
+    const typed = isTyped(impl);
+    const exportKeyword = impl.defaultExport ? "export default function" : "export function";
+    const lines: string[] = [];
+
+    if (impl.stateManagement === "context") {
+        lines.push(
+            `import { ${impl.useJsx ? "" : "createElement, "}useEffect, useMemo, useState } from "react";`,
+            ...(typed ? [`import type { ReactNode } from "react";`] : []),
+            `import { applyThemeVariables, themes } from "./theme";`,
+            ...(typed ? [`import type { ThemeMode } from "./theme";`] : []),
+            `import { ThemeContext } from "./theme-context";`,
+            "",
+            ...(typed
+                ? [`export interface ThemeProviderProps {`, `  children: ReactNode;`, `  defaultMode?: ThemeMode;`, `}`, ""]
+                : []),
+            `${exportKeyword} ThemeProvider({ children, defaultMode = "light" }${typed ? ": ThemeProviderProps" : ""}) {`,
+            `  const [mode, setMode] = useState${typed ? "<ThemeMode>" : ""}(defaultMode);`,
+            `  const theme = themes[mode];`,
+            "",
+            ...createApplyEffect(),
+            "",
+            `  const value = useMemo(`,
+            `    () => ({`,
+            `      theme,`,
+            `      mode,`,
+            `      setMode,`,
+            `      toggleMode: () => setMode(mode === "light" ? "dark" : "light"),`,
+            `    }),`,
+            `    [theme, mode]`,
+            `  );`,
+            "",
+            impl.useJsx
+                ? `  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;`
+                : `  return createElement(ThemeContext.Provider, { value }, children);`,
+            `}`
+        );
+        return lines;
+    }
+
+    const reactImports = impl.useJsx ? "useEffect" : "createElement, Fragment, useEffect";
+    lines.push(
+        `import { ${reactImports} } from "react";`,
+        ...(typed ? [`import type { ReactNode } from "react";`] : []),
+        ...createStateImports(impl, "provider"),
+        "",
+        ...(typed ? [`export interface ThemeProviderProps {`, `  children: ReactNode;`, `}`, ""] : []),
+        ...(impl.stateManagement === "redux"
+            ? [`// Render inside react-redux's <Provider> with the theme reducer mounted at \`theme\``]
+            : []),
+        `${exportKeyword} ThemeProvider({ children }${typed ? ": ThemeProviderProps" : ""}) {`,
+        ...createStateReads(impl, "provider"),
+        "",
+        ...createApplyEffect(),
+        "",
+        impl.useJsx ? `  return <>{children}</>;` : `  return createElement(Fragment, null, children);`,
+        `}`
+    );
+    return lines;
+}
+
+// useTheme() returns the active theme, its mode and setters
+function createHook(impl: ReactThemeImplementation): string[] {
+    const typed = isTyped(impl);
+    const exportKeyword = impl.defaultExport ? "export default function" : "export function";
+
+    if (impl.stateManagement === "context") {
+        return [
+            `import { useContext } from "react";`,
+            `import { ThemeContext } from "./theme-context";`,
+            ...(typed ? [`import type { ThemeContextValue } from "./theme-context";`] : []),
+            "",
+            `${exportKeyword} useTheme()${typed ? ": ThemeContextValue" : ""} {`,
+            `  const value = useContext(ThemeContext);`,
+            `  if (!value) {`,
+            `    throw new Error("useTheme must be used within a ThemeProvider");`,
+            `  }`,
+            `  return value;`,
+            `}`
+        ];
+    }
+
+    if (impl.stateManagement === "zustand") {
+        return [
+            `import { useThemeStore } from "./theme-store";`,
+            "",
+            `${exportKeyword} useTheme() {`,
+            `  return useThemeStore();`,
+            `}`
+        ];
+    }
+
+    return [
+        ...createStateImports(impl, "hook"),
+        "",
+        `${exportKeyword} useTheme() {`,
+        ...createStateReads(impl, "hook"),
+        "",
+        `  return {`,
+        `    theme,`,
+        `    mode,`,
+        `    setMode,`,
+        `    toggleMode: () => setMode(mode === "light" ? "dark" : "light"),`,
+        `  };`,
+        `}`
+    ];
+}
+
+function createStateImports(impl: ReactThemeImplementation, target: "provider" | "hook"): string[] {
+    const typed = isTyped(impl);
+    const themeImports = target === "provider" ? "applyThemeVariables, themes" : "themes";
+
+    switch (impl.stateManagement) {
+        case "redux":
+            return [
+                `import { ${target === "provider" ? "useSelector" : "useDispatch, useSelector"} } from "react-redux";`,
+                `import { ${themeImports} } from "./theme";`,
+                ...(typed && target === "hook" ? [`import type { ThemeMode } from "./theme";`] : []),
+                ...(target === "hook" ? [`import { setThemeMode } from "./theme-slice";`] : []),
+                ...(typed ? [`import type { ThemeState } from "./theme-slice";`] : [])
+            ];
+        case "jotai":
+            return [
+                `import { ${target === "provider" ? "useAtomValue" : "useAtom, useAtomValue"} } from "jotai";`,
+                ...(target === "provider" ? [`import { applyThemeVariables } from "./theme";`] : []),
+                `import { themeAtom, themeModeAtom } from "./theme-atoms";`
+            ];
+        default:
+            return [
+                `import { applyThemeVariables } from "./theme";`,
+                `import { useThemeStore } from "./theme-store";`
+            ];
+    }
+}
+
+// Lines reading theme/mode (and setMode for the hook) from the state manager
+function createStateReads(impl: ReactThemeImplementation, target: "provider" | "hook"): string[] {
+    const typed = isTyped(impl);
+
+    switch (impl.stateManagement) {
+        case "redux": {
+            const lines = [
+                `  const mode = useSelector((state${typed ? ": { theme: ThemeState }" : ""}) => state.theme.mode);`,
+                `  const theme = themes[mode];`
+            ];
+            if (target === "hook") {
+                lines.push(
+                    `  const dispatch = useDispatch();`,
+                    `  const setMode = (next${typed ? ": ThemeMode" : ""}) => dispatch(setThemeMode(next));`
+                );
+            }
+            return lines;
+        }
+        case "jotai":
+            return [
+                target === "hook"
+                    ? `  const [mode, setMode] = useAtom(themeModeAtom);`
+                    : `  const mode = useAtomValue(themeModeAtom);`,
+                `  const theme = useAtomValue(themeAtom);`
+            ];
+        default:
+            return [
+                `  const theme = useThemeStore((state) => state.theme);`,
+                `  const mode = useThemeStore((state) => state.mode);`
+            ];
+    }
+}
+
+function createApplyEffect(): string[] {
+    return [
+        `  useEffect(() => {`,
+        `    applyThemeVariables(theme);`,
+        `    document.documentElement.dataset.theme = mode;`,
+        `  }, [theme, mode]);`
+    ];
+}
+
+// Type annotations only make sense in TypeScript output
+function isTyped(impl: ReactThemeImplementation): boolean {
+    return impl.useTypeScript && impl.includeTypes;
+}
+
+registerThemeCreator("react", createReactTheme, DEFAULT_REACT_THEME_IMPLEMENTATION);
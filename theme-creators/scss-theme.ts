@@ -1,3 +1,170 @@
 /** Application to take a color theme file and render as an SCSS theme file(s) */
 
-// Import theme format file
+import { WebsiteThemeModel } from "../models/website-theme";
+import { createHeaderComment, createThemeFile, registerThemeCreator, ThemeFile } from "../theme-generator";
+import type { ScssThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Default options for SCSS theme generation
+export const DEFAULT_SCSS_THEME_IMPLEMENTATION: ScssThemeImplementation = {
+    format: "scss",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "theme",
+    exportName: "theme",
+    useMap: true,
+    mapName: "theme-colors",
+    generateMixins: false,
+    generateFunctions: true,
+    useDefault: true,
+    generatePartial: true
+};
+
+// Brand roles that get a background/contrast mixin
+const BRAND_GROUPS = ["primary", "secondary", "accent"];
+
+/**
+ * Render a theme as SCSS variables or a nested color map
+ */
+export function createScssTheme(theme: WebsiteThemeModel, impl: ScssThemeImplementation): ThemeFile[] {
+    const prefix = impl.variablePrefix.replace(/^\$/, "");
+    const mapName = impl.mapName.replace(/^\$/, "");
+    const flag = impl.useDefault ? " !default" : "";
+    const colors = theme.toJsObject();
+    const sections: string[] = [];
+
+    if (impl.includeComments) {
+        sections.push(createHeaderComment(theme));
+    }
+
+    // map.get is needed by the functions and map-based mixins
+    if (impl.generateFunctions || (impl.useMap && impl.generateMixins)) {
+        sections.push(`@use "sass:map";`);
+    }
+
+    // Flat variables always back the map-less output; a private map backs the accessor function
+    let lookupMap = mapName;
+    if (impl.useMap) {
+        sections.push(comment(impl, "Theme color map") + createMap(mapName, colors, flag));
+    } else {
+        sections.push(comment(impl, "Theme color variables") + appendFlag(theme.toScssVariables(`$${prefix}`), flag));
+
+        if (impl.generateFunctions) {
+            lookupMap = `-${mapName}`;
+            sections.push(createMap(lookupMap, colors, "", (group, key) => `$${prefix}-${group}-${key}`));
+        }
+    }
+
+    if (impl.generateFunctions) {
+        sections.push(
+            comment(impl, `Look up a theme color, e.g. ${prefix}-color("primary", "main")`) +
+            [
+                `@function ${prefix}-color($group, $key: "main") {`,
+                `  @return map.get($${lookupMap}, $group, $key);`,
+                `}`
+            ].join("\n")
+        );
+    }
+
+    if (impl.generateMixins) {
+        sections.push(impl.useMap
+            ? createMapMixins(impl, prefix, mapName)
+            : createFlatMixins(impl, prefix, colors));
+    }
+
+    const scss = sections.join("\n\n") + "\n";
+    const content = impl.minify ? minifyScss(scss) : scss;
+    const filename = impl.generatePartial ? `_${impl.exportName}.scss` : `${impl.exportName}.scss`;
+
+    return [createThemeFile(theme, filename, "text/x-scss", content)];
+}
+
+// Nested "group": ("key": value) map
+function createMap(
+    name: string,
+    colors: Record<string, Record<string, string>>,
+    flag: string,
+    valueFor: (group: string, key: string, value: string) => string = (_group, _key, value) => value
+): string {
+    const groups = Object.entries(colors).map(([group, values]) => {
+        const entries = Object.entries(values).map(
+            ([key, value]) => `    "${key}": ${valueFor(group, key, value)}`
+        );
+        return `  "${group}": (\n${entries.join(",\n")}\n  )`;
+    });
+
+    return `$${name}: (\n${groups.join(",\n")}\n)${flag};`;
+}
+
+function createMapMixins(impl: ScssThemeImplementation, prefix: string, mapName: string): string {
+    return [
+        comment(impl, "Background with contrasting text for a brand color group") +
+        [
+            `@mixin ${prefix}-brand($group) {`,
+            `  background-color: map.get($${mapName}, $group, "main");`,
+            `  color: map.get($${mapName}, $group, "contrast");`,
+            `}`
+        ].join("\n"),
+        comment(impl, "Emit every theme color as a CSS custom property") +
+        [
+            `@mixin ${prefix}-css-variables($prefix: "${prefix}") {`,
+            `  @each $group, $colors in $${mapName} {`,
+            `    @each $key, $value in $colors {`,
+            `      --#{$prefix}-#{$group}-#{$key}: #{$value};`,
+            `    }`,
+            `  }`,
+            `}`
+        ].join("\n")
+    ].join("\n\n");
+}
+
+function createFlatMixins(
+    impl: ScssThemeImplementation,
+    prefix: string,
+    colors: Record<string, Record<string, string>>
+): string {
+    const mixins: string[] = [];
+
+    for (const group of BRAND_GROUPS) {
+        const values = colors[group];
+        if (!values?.main) continue;
+
+        const lines = [`@mixin ${prefix}-${group} {`, `  background-color: $${prefix}-${group}-main;`];
+        if (values.contrast) {
+            lines.push(`  color: $${prefix}-${group}-contrast;`);
+        }
+        lines.push(`}`);
+        mixins.push(comment(impl, `Background with contrasting text for ${group}`) + lines.join("\n"));
+    }
+
+    const variables = Object.entries(colors).flatMap(([group, values]) =>
+        Object.keys(values).map((key) => `  --${prefix}-${group}-${key}: #{$${prefix}-${group}-${key}};`)
+    );
+    mixins.push(
+        comment(impl, "Emit every theme color as a CSS custom property") +
+        [`@mixin ${prefix}-css-variables {`, ...variables, `}`].join("\n")
+    );
+
+    return mixins.join("\n\n");
+}
+
+function comment(impl: ScssThemeImplementation, text: string): string {
+    return impl.includeComments ? `// ${text}\n` : "";
+}
+
+function appendFlag(variables: string, flag: string): string {
+    return variables
+        .split("\n")
+        .map((line) => line.replace(/;$/, `${flag};`))
+        .join("\n");
+}
+
+function minifyScss(scss: string): string {
+    return scss
+        .replace(/^\s*\/\/.*$/gm, "")
+        .replace(/\s+/g, " ")
+        .replace(/\s*([{}:;,()])\s*/g, "$1")
+        .replace(/\s*!default/g, " !default")
+        .trim();
+}
+
+registerThemeCreator("scss", createScssTheme, DEFAULT_SCSS_THEME_IMPLEMENTATION);
@@ -1,3 +1,223 @@
-/** Application to take a color theme file and render as an Solid.js theme file(s) */
+/** Application to take a color theme file and render as an SolidJS theme file(s) */
 
-// Import theme format file
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import { createHeaderComment, createThemeFile, formatJsObject, formatTsInterface, registerThemeCreator, ThemeFile } from "../theme-generator";
+import type { SolidThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Default options for Solid theme generation
+export const DEFAULT_SOLID_THEME_IMPLEMENTATION: SolidThemeImplementation = {
+    format: "solid",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "theme",
+    exportName: "theme",
+    useTypeScript: true,
+    useJsx: true,
+    useSignals: true,
+    generateProvider: true,
+    generatePrimitive: true,
+    useStore: true
+};
+
+/**
+ * Render a theme as light/dark theme objects with a createThemeContext primitive,
+ * a ThemeProvider component and a useTheme() accessor
+ */
+export function createSolidTheme(theme: WebsiteThemeModel, impl: SolidThemeImplementation): ThemeFile[] {
+    const ext = impl.useTypeScript ? "ts" : "js";
+    const componentExt = impl.useJsx ? `${ext}x` : ext;
+    const mimeType = impl.useTypeScript ? "text/typescript" : "text/javascript";
+    const header = impl.includeComments ? [createHeaderComment(theme), ""] : [];
+
+    const file = (filepath: string, lines: string[]): ThemeFile =>
+        createThemeFile(theme, filepath, mimeType, [...header, ...lines].join("\n") + "\n");
+
+    const files = [file(`${impl.exportName}.${ext}`, createThemeModule(theme, impl))];
+
+    if (impl.generateProvider || impl.generatePrimitive) {
+        files.push(file(`theme-context.${ext}`, createContextModule(impl)));
+    }
+    if (impl.generateProvider) {
+        files.push(file(`ThemeProvider.${componentExt}`, createProvider(impl)));
+    }
+
+    return files;
+}
+
+// Light and dark theme objects plus a helper that applies one as CSS custom properties
+function createThemeModule(theme: WebsiteThemeModel, impl: SolidThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+    const prefix = impl.variablePrefix.replace(/^-+/, "");
+    const light = theme.toJsObject();
+    const dark = websiteThemeRepository.createDarkVariant(theme).toJsObject();
+    const lines: string[] = [];
+
+    if (typed) {
+        lines.push(formatTsInterface("ThemeColors", light), "", `export type ThemeMode = "light" | "dark";`, "");
+    }
+
+    lines.push(
+        `export const lightTheme${typed ? ": ThemeColors" : ""} = ${formatJsObject(light)};`,
+        "",
+        `export const darkTheme${typed ? ": ThemeColors" : ""} = ${formatJsObject(dark)};`,
+        "",
+        `export const themes${typed ? ": Record<ThemeMode, ThemeColors>" : ""} = {`,
+        `  light: lightTheme,`,
+        `  dark: darkTheme,`,
+        `};`,
+        "",
+        ...comment(impl, `Expose a theme as --${prefix}-<group>-<key> custom properties`),
+        `export function applyThemeVariables(${typed
+            ? "theme: ThemeColors, root: HTMLElement = document.documentElement): void"
+            : "theme, root = document.documentElement)"} {`,
+        `  for (const [group, colors] of Object.entries(theme)) {`,
+        `    for (const [key, value] of Object.entries(colors${typed ? " as Record<string, string>" : ""})) {`,
+        `      root.style.setProperty(\`--${prefix}-\${group}-\${key}\`, value);`,
+        `    }`,
+        `  }`,
+        `}`
+    );
+
+    return lines;
+}
+
+// Context, the createThemeContext primitive that builds its value, and useTheme()
+function createContextModule(impl: SolidThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+    const themeModule = `./${impl.exportName}`;
+    const modeRead = impl.useSignals ? "mode()" : "state.mode";
+
+    const solidImports = ["createContext"];
+    if (impl.useSignals) solidImports.push("createSignal");
+    if (impl.useStore) solidImports.push("createEffect", "on");
+    else solidImports.push("createMemo");
+    if (impl.generatePrimitive) solidImports.push("useContext");
+
+    const storeImports = impl.useStore ? ["createStore", "reconcile"] : impl.useSignals ? [] : ["createStore"];
+
+    const lines = [
+        `import { ${solidImports.sort().join(", ")} } from "solid-js";`,
+        ...(storeImports.length > 0 ? [`import { ${storeImports.join(", ")} } from "solid-js/store";`] : []),
+        `import { themes } from "${themeModule}";`,
+        ...(typed ? [`import type { ThemeColors, ThemeMode } from "${themeModule}";`] : []),
+        ""
+    ];
+
+    if (typed) {
+        lines.push(
+            `export interface ThemeContextValue {`,
+            `  readonly mode: ThemeMode;`,
+            `  readonly theme: ThemeColors;`,
+            `  setMode: (mode: ThemeMode) => void;`,
+            `  toggleMode: () => void;`,
+            `}`,
+            ""
+        );
+    }
+
+    lines.push(
+        `export const ThemeContext = createContext${typed ? "<ThemeContextValue>" : ""}();`,
+        "",
+        ...comment(impl, "Reactive theme state; read mode and theme inside a tracking scope to follow changes"),
+        `export function createThemeContext(initialMode${typed ? ": ThemeMode" : ""} = "light")${typed
+            ? ": ThemeContextValue"
+            : ""} {`
+    );
+
+    if (impl.useSignals) {
+        lines.push(`  const [mode, setMode] = createSignal${typed ? "<ThemeMode>" : ""}(initialMode);`);
+    } else {
+        lines.push(
+            `  const [state, setState] = createStore${typed ? "<{ mode: ThemeMode }>" : ""}({ mode: initialMode });`,
+            `  const setMode = (next${typed ? ": ThemeMode" : ""}) => setState("mode", next);`
+        );
+    }
+
+    if (impl.useStore) {
+        lines.push(
+            "",
+            ...comment(impl, "Copies keep the shared light/dark objects out of the store", 2),
+            `  const [theme, setTheme] = createStore${typed ? "<ThemeColors>" : ""}(structuredClone(themes[initialMode]));`,
+            `  createEffect(`,
+            `    on(`,
+            `      () => ${modeRead},`,
+            `      (next) => setTheme(reconcile(structuredClone(themes[next]))),`,
+            `      { defer: true }`,
+            `    )`,
+            `  );`
+        );
+    } else {
+        lines.push(`  const theme = createMemo(() => themes[${modeRead}]);`);
+    }
+
+    lines.push(
+        "",
+        `  return {`,
+        `    get mode() {`,
+        `      return ${modeRead};`,
+        `    },`,
+        `    get theme() {`,
+        `      return ${impl.useStore ? "theme" : "theme()"};`,
+        `    },`,
+        `    setMode,`,
+        `    toggleMode: () => setMode(${modeRead} === "light" ? "dark" : "light"),`,
+        `  };`,
+        `}`
+    );
+
+    if (impl.generatePrimitive) {
+        lines.push(
+            "",
+            `export function useTheme()${typed ? ": ThemeContextValue" : ""} {`,
+            `  const context = useContext(ThemeContext);`,
+            `  if (!context) {`,
+            `    throw new Error("useTheme must be used within a ThemeProvider");`,
+            `  }`,
+            `  return context;`,
+            `}`
+        );
+    }
+
+    return lines;
+}
+
+// Provider that owns a theme context and keeps the document's custom properties in sync
+function createProvider(impl: SolidThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+    const themeModule = `./${impl.exportName}`;
+
+    return [
+        `import { ${impl.useJsx ? "" : "createComponent, "}createEffect } from "solid-js";`,
+        ...(typed ? [`import type { ParentProps } from "solid-js";`] : []),
+        `import { applyThemeVariables } from "${themeModule}";`,
+        ...(typed ? [`import type { ThemeMode } from "${themeModule}";`] : []),
+        `import { ThemeContext, createThemeContext } from "./theme-context";`,
+        "",
+        `export function ThemeProvider(props${typed ? ": ParentProps<{ mode?: ThemeMode }>" : ""}) {`,
+        `  const value = createThemeContext(props.mode);`,
+        "",
+        ...comment(impl, "Effects only run in the browser, so SSR output is untouched", 2),
+        `  createEffect(() => {`,
+        `    applyThemeVariables(value.theme);`,
+        `    document.documentElement.dataset.theme = value.mode;`,
+        `  });`,
+        "",
+        ...(impl.useJsx
+            ? [`  return <ThemeContext.Provider value={value}>{props.children}</ThemeContext.Provider>;`]
+            : [
+                `  return createComponent(ThemeContext.Provider, {`,
+                `    value,`,
+                `    get children() {`,
+                `      return props.children;`,
+                `    },`,
+                `  });`
+            ]),
+        `}`
+    ];
+}
+
+function comment(impl: SolidThemeImplementation, text: string, indent: number = 0): string[] {
+    return impl.includeComments ? [`${" ".repeat(indent)}// ${text}`] : [];
+}
+
+registerThemeCreator("solid", createSolidTheme, DEFAULT_SOLID_THEME_IMPLEMENTATION);
@@ -0,0 +1,167 @@
+/** Application to take a color theme file and render as an styled-components theme file(s) */
+
+import { WebsiteThemeModel } from "../models/website-theme";
+import {
+    createCssInJsHook,
+    createCssInJsProvider,
+    createCssInJsThemeModule,
+    createHeaderComment,
+    createThemeFile,
+    CssInJsLibrary,
+    registerThemeCreator,
+    ThemeFile
+} from "../theme-generator";
+import type { StyledComponentsThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Default options for styled-components theme generation
+export const DEFAULT_STYLED_COMPONENTS_THEME_IMPLEMENTATION: StyledComponentsThemeImplementation = {
+    format: "styled-components",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "",
+    exportName: "theme",
+    useTypeScript: true,
+    generateProvider: true,
+    generateThemeDeclaration: true,
+    generateHook: false,
+    generateGlobalStyle: true,
+    includeCssReset: false
+};
+
+const STYLED_COMPONENTS_LIBRARY: CssInJsLibrary = {
+    packageName: "styled-components",
+    providerAlias: "StyledThemeProvider",
+    hookAlias: "useStyledTheme"
+};
+
+// Small modern reset placed ahead of the theme rules in GlobalStyle
+const CSS_RESET = [
+    "*,",
+    "*::before,",
+    "*::after {",
+    "  box-sizing: border-box;",
+    "}",
+    "",
+    "* {",
+    "  margin: 0;",
+    "}",
+    "",
+    "html {",
+    "  -webkit-text-size-adjust: 100%;",
+    "}",
+    "",
+    "body {",
+    "  line-height: 1.5;",
+    "  -webkit-font-smoothing: antialiased;",
+    "}",
+    "",
+    "img,",
+    "picture,",
+    "video,",
+    "canvas,",
+    "svg {",
+    "  display: block;",
+    "  max-width: 100%;",
+    "}",
+    "",
+    "input,",
+    "button,",
+    "textarea,",
+    "select {",
+    "  font: inherit;",
+    "}"
+];
+
+/**
+ * Render a theme as styled-components theme objects with an optional DefaultTheme
+ * declaration, GlobalStyle, ThemeProvider and useTheme hook
+ */
+export function createStyledComponentsTheme(
+    theme: WebsiteThemeModel,
+    impl: StyledComponentsThemeImplementation
+): ThemeFile[] {
+    const typed = impl.useTypeScript;
+    const ext = typed ? "ts" : "js";
+    const mimeType = typed ? "text/typescript" : "text/javascript";
+    const header = impl.includeComments ? [createHeaderComment(theme), ""] : [];
+    const colors = theme.toJsObject();
+    const themeModule = `./${impl.exportName}`;
+    const declared = typed && impl.generateThemeDeclaration;
+
+    const file = (filepath: string, lines: string[]): ThemeFile =>
+        createThemeFile(theme, filepath, mimeType, [...header, ...lines].join("\n") + "\n");
+
+    const files = [file(`${impl.exportName}.${ext}`, createCssInJsThemeModule(theme, impl.exportName, typed))];
+
+    if (declared) {
+        files.push(file("styled.d.ts", [
+            `import "styled-components";`,
+            `import type { Theme } from "${themeModule}";`,
+            "",
+            ...comment(impl, "Types the theme prop and useTheme() across every styled component"),
+            `declare module "styled-components" {`,
+            `  export interface DefaultTheme extends Theme {}`,
+            `}`
+        ]));
+    }
+
+    if (impl.generateGlobalStyle) {
+        files.push(file(`GlobalStyle.${ext}`, createGlobalStyle(impl, colors, typed && !declared)));
+    }
+
+    if (impl.generateProvider) {
+        const globalStyle = impl.generateGlobalStyle ? "GlobalStyle" : undefined;
+        files.push(file(`ThemeProvider.${ext}x`, createCssInJsProvider(STYLED_COMPONENTS_LIBRARY, impl.exportName, typed, globalStyle)));
+    }
+
+    if (impl.generateHook) {
+        // Without the DefaultTheme declaration the library hook is untyped, so narrow it here
+        files.push(file(`use-theme.${ext}`, createCssInJsHook(STYLED_COMPONENTS_LIBRARY, impl.exportName, typed && !declared)));
+    }
+
+    return files;
+}
+
+// createGlobalStyle applying the page background, text and link colors from the active theme
+function createGlobalStyle(
+    impl: StyledComponentsThemeImplementation,
+    colors: Record<string, Record<string, string>>,
+    themeProp: boolean
+): string[] {
+    const rule = (selector: string, declarations: Array<[string, string]>): string[] => [
+        `${selector} {`,
+        ...declarations.map(([property, path]) => `  ${property}: \${({ theme }) => theme.colors.${path}};`),
+        `}`
+    ];
+
+    const body: string[] = [
+        ...rule("body", [["background-color", "background.default"], ["color", "text.primary"]])
+    ];
+    if (colors.link?.default) {
+        body.push("", ...rule("a", [["color", "link.default"]]));
+        if (colors.link.hover) {
+            body.push("", ...rule("a:hover", [["color", "link.hover"]]));
+        }
+    }
+    if (colors.border?.focus) {
+        body.push("", ...rule(":focus-visible", [["outline-color", "border.focus"]]));
+    }
+
+    const css = impl.includeCssReset ? [...CSS_RESET, "", ...body] : body;
+
+    return [
+        `import { createGlobalStyle } from "styled-components";`,
+        // Without the DefaultTheme declaration the theme prop has to be typed per component
+        ...(themeProp ? [`import type { Theme } from "./${impl.exportName}";`] : []),
+        "",
+        `export const GlobalStyle = createGlobalStyle${themeProp ? "<{ theme?: Theme }>" : ""}\``,
+        ...css.map((line) => (line ? `  ${line}` : line)),
+        "`;"
+    ];
+}
+
+function comment(impl: StyledComponentsThemeImplementation, text: string): string[] {
+    return impl.includeComments ? [`// ${text}`] : [];
+}
+
+registerThemeCreator("styled-components", createStyledComponentsTheme, DEFAULT_STYLED_COMPONENTS_THEME_IMPLEMENTATION);
@@ -1,3 +1,345 @@
-/** Application to take a color theme file and render as an Svelte.js theme file(s) */
+/** Application to take a color theme file and render as an Svelte theme file(s) */
 
-// Import theme format file
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import { createHeaderComment, createThemeFile, formatJsObject, formatTsInterface, registerThemeCreator, ThemeFile } from "../theme-generator";
+import type { SvelteThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Default options for Svelte theme generation
+export const DEFAULT_SVELTE_THEME_IMPLEMENTATION: SvelteThemeImplementation = {
+    format: "svelte",
+    useTypeScript: true,
+    useStores: true,
+    generateComponent: true,
+    useContext: false,
+    svelteKit: false,
+    svelteVersion: "4"
+};
+
+// Cookie that carries the chosen mode to the SvelteKit server
+const THEME_COOKIE = "theme";
+
+/**
+ * Render a theme as light/dark theme objects with reactive state (stores for Svelte 3/4,
+ * $state runes for Svelte 5), an optional ThemeProvider component and SvelteKit SSR hooks
+ */
+export function createSvelteTheme(theme: WebsiteThemeModel, impl: SvelteThemeImplementation): ThemeFile[] {
+    const ext = impl.useTypeScript ? "ts" : "js";
+    const mimeType = impl.useTypeScript ? "text/typescript" : "text/javascript";
+    const header = createHeaderComment(theme, "//");
+    // SvelteKit output is laid out as a project tree so $lib and route files resolve
+    const dir = impl.svelteKit ? "src/lib/theme/" : "";
+    const runes = impl.svelteVersion === "5";
+    const reactive = runes || impl.useStores;
+
+    const file = (filepath: string, lines: string[]): ThemeFile =>
+        createThemeFile(theme, filepath, mimeType, [header, "", ...lines].join("\n") + "\n");
+
+    const files = [file(`${dir}theme.${ext}`, createThemeModule(theme, impl))];
+
+    if (runes) {
+        files.push(file(`${dir}theme-state.svelte.${ext}`, createRuneModule(impl)));
+    } else if (impl.useStores) {
+        files.push(file(`${dir}theme-store.${ext}`, createStoreModule(impl)));
+    }
+    if (reactive && impl.useContext) {
+        files.push(file(`${dir}theme-context.${ext}`, createContextModule(impl)));
+    }
+    if (impl.generateComponent) {
+        const component = [createHeaderComment(theme, "html"), "", ...createProvider(impl)].join("\n");
+        files.push(createThemeFile(theme, `${dir}ThemeProvider.svelte`, "text/x-svelte", component + "\n"));
+    }
+    if (impl.svelteKit) {
+        files.push(
+            file(`src/hooks.server.${ext}`, createServerHook(impl)),
+            file(`src/routes/+layout.server.${ext}`, createLayoutLoad(impl))
+        );
+    }
+
+    return files;
+}
+
+// Light and dark theme objects plus the inline style the provider writes
+function createThemeModule(theme: WebsiteThemeModel, impl: SvelteThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+    const light = theme.toJsObject();
+    const dark = websiteThemeRepository.createDarkVariant(theme).toJsObject();
+    const lines: string[] = [];
+
+    if (typed) {
+        lines.push(formatTsInterface("ThemeColors", light), "", `export type ThemeMode = "light" | "dark";`, "");
+    }
+
+    lines.push(
+        `export const lightTheme${typed ? ": ThemeColors" : ""} = ${formatJsObject(light)};`,
+        "",
+        `export const darkTheme${typed ? ": ThemeColors" : ""} = ${formatJsObject(dark)};`,
+        "",
+        `export const themes${typed ? ": Record<ThemeMode, ThemeColors>" : ""} = {`,
+        `  light: lightTheme,`,
+        `  dark: darkTheme,`,
+        `};`,
+        "",
+        `// Inline style declaring the theme as --theme-<group>-<key> custom properties`,
+        `export function toCssVariables(theme${typed ? ": ThemeColors): string" : ")"} {`,
+        `  return Object.entries(theme)`,
+        `    .flatMap(([group, colors]) =>`,
+        `      Object.entries(colors${typed ? " as Record<string, string>" : ""}).map(([key, value]) => \`--theme-\${group}-\${key}: \${value}\`)`,
+        `    )`,
+        `    .join("; ");`,
+        `}`
+    );
+
+    if (impl.svelteKit) {
+        lines.push(
+            "",
+            `export const THEME_COOKIE = "${THEME_COOKIE}";`,
+            "",
+            `export function parseThemeMode(value${typed ? ": string | null | undefined): ThemeMode" : ")"} {`,
+            `  return value === "dark" ? "dark" : "light";`,
+            `}`
+        );
+    }
+
+    return lines;
+}
+
+// Svelte 3/4: writable mode store with a derived theme
+function createStoreModule(impl: SvelteThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+    const lines = [
+        `import { derived, writable } from "svelte/store";`,
+        ...(impl.svelteKit ? [`import { browser } from "$app/environment";`] : []),
+        `import { ${impl.svelteKit ? "THEME_COOKIE, " : ""}themes } from "./theme";`,
+        ...(typed ? [`import type { ThemeMode } from "./theme";`] : []),
+        "",
+        `export function createThemeStore(initialMode${typed ? ": ThemeMode" : ""} = "light") {`,
+        `  const mode = writable${typed ? "<ThemeMode>" : ""}(initialMode);`,
+        `  const theme = derived(mode, ($mode) => themes[$mode]);`
+    ];
+
+    if (impl.svelteKit) {
+        lines.push("", ...indent(createPersistence("mode.subscribe((value) => {", "});"), 2));
+    }
+
+    lines.push(
+        "",
+        `  return {`,
+        `    mode,`,
+        `    theme,`,
+        `    toggle: () => mode.update((value) => (value === "light" ? "dark" : "light")),`,
+        `  };`,
+        `}`
+    );
+
+    if (typed) {
+        lines.push("", `export type ThemeStore = ReturnType<typeof createThemeStore>;`);
+    }
+    // A module-level store would be shared between requests on the server, so context mode avoids it
+    if (!impl.useContext) {
+        lines.push("", `export const themeStore = createThemeStore();`);
+    }
+
+    return lines;
+}
+
+// Svelte 5: $state rune holding the mode, exposed through getters
+function createRuneModule(impl: SvelteThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+    const lines = [
+        ...(impl.svelteKit ? [`import { browser } from "$app/environment";`] : []),
+        `import { ${impl.svelteKit ? "THEME_COOKIE, " : ""}themes } from "./theme";`,
+        ...(typed ? [`import type { ThemeMode } from "./theme";`] : []),
+        ""
+    ];
+
+    if (impl.svelteKit) {
+        lines.push(
+            ...createPersistence(`function persistMode(value${typed ? ": ThemeMode): void" : ")"} {`, "}"),
+            ""
+        );
+    }
+
+    lines.push(
+        `export function createThemeState(initialMode${typed ? ": ThemeMode" : ""} = "light") {`,
+        `  let mode = $state${typed ? "<ThemeMode>" : ""}(initialMode);`,
+        "",
+        `  return {`,
+        `    get mode() {`,
+        `      return mode;`,
+        `    },`,
+        `    set mode(value${typed ? ": ThemeMode" : ""}) {`,
+        `      mode = value;`,
+        ...(impl.svelteKit ? [`      persistMode(value);`] : []),
+        `    },`,
+        `    get theme() {`,
+        `      return themes[mode];`,
+        `    },`,
+        `    toggle() {`,
+        `      this.mode = mode === "light" ? "dark" : "light";`,
+        `    },`,
+        `  };`,
+        `}`
+    );
+
+    if (typed) {
+        lines.push("", `export type ThemeState = ReturnType<typeof createThemeState>;`);
+    }
+    if (!impl.useContext) {
+        lines.push("", `export const themeState = createThemeState();`);
+    }
+
+    return lines;
+}
+
+// Subscriber/setter body that writes the new mode (`value`) to the <html> class and cookie
+function createPersistence(open: string, close: string): string[] {
+    return [
+        `// Keep the <html> class and the cookie read by hooks.server in step with the mode`,
+        open,
+        `  if (!browser) return;`,
+        `  document.documentElement.classList.remove("light", "dark");`,
+        `  document.documentElement.classList.add(value);`,
+        `  document.cookie = \`\${THEME_COOKIE}=\${value}; path=/; max-age=31536000; SameSite=Lax\`;`,
+        close
+    ];
+}
+
+function createContextModule(impl: SvelteThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+    const runes = impl.svelteVersion === "5";
+    const type = runes ? "ThemeState" : "ThemeStore";
+    const source = runes ? "./theme-state.svelte" : "./theme-store";
+
+    return [
+        `import { getContext, setContext } from "svelte";`,
+        ...(typed ? [`import type { ${type} } from "${source}";`] : []),
+        "",
+        `const THEME_KEY = Symbol("theme");`,
+        "",
+        `export function setThemeContext(state${typed ? `: ${type}): void` : ")"} {`,
+        `  setContext(THEME_KEY, state);`,
+        `}`,
+        "",
+        `export function getThemeContext()${typed ? `: ${type}` : ""} {`,
+        `  return getContext(THEME_KEY);`,
+        `}`
+    ];
+}
+
+// Wrapper that writes the active theme's custom properties as an inline style, so SSR output is styled too
+function createProvider(impl: SvelteThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+    const lang = typed ? ` lang="ts"` : "";
+    const usage = impl.svelteKit ? [`  // In +layout.svelte: <ThemeProvider mode={data.theme}>`] : [];
+
+    if (impl.svelteVersion === "5") {
+        const state = impl.useContext ? "createThemeState" : "themeState";
+        return [
+            `<script${lang}>`,
+            ...usage,
+            ...(typed ? [`  import type { Snippet } from "svelte";`] : []),
+            `  import { toCssVariables } from "./theme";`,
+            ...(typed ? [`  import type { ThemeMode } from "./theme";`] : []),
+            `  import { ${state} } from "./theme-state.svelte";`,
+            ...(impl.useContext ? [`  import { setThemeContext } from "./theme-context";`] : []),
+            "",
+            `  let { mode = "light", children }${typed ? ": { mode?: ThemeMode; children?: Snippet }" : ""} = $props();`,
+            "",
+            ...(impl.useContext
+                ? [
+                    `  // svelte-ignore state_referenced_locally`,
+                    `  const state = createThemeState(mode);`,
+                    `  setThemeContext(state);`
+                ]
+                : [`  const state = themeState;`, `  // svelte-ignore state_referenced_locally`, `  state.mode = mode;`]),
+            "",
+            `  const style = $derived(\`display: contents; \${toCssVariables(state.theme)}\`);`,
+            `</script>`,
+            "",
+            `<div class="theme-provider" data-theme={state.mode} {style}>`,
+            `  {@render children?.()}`,
+            `</div>`
+        ];
+    }
+
+    const lines = [
+        `<script${lang}>`,
+        ...usage,
+        `  import { ${impl.useStores ? "toCssVariables" : "themes, toCssVariables"} } from "./theme";`,
+        ...(typed ? [`  import type { ThemeMode } from "./theme";`] : [])
+    ];
+
+    if (!impl.useStores) {
+        // Without stores the mode is just a prop
+        return [
+            ...lines,
+            "",
+            `  export let mode${typed ? ": ThemeMode" : ""} = "light";`,
+            "",
+            `  $: style = \`display: contents; \${toCssVariables(themes[mode])}\`;`,
+            `</script>`,
+            "",
+            `<div class="theme-provider" data-theme={mode} {style}>`,
+            `  <slot />`,
+            `</div>`
+        ];
+    }
+
+    lines.push(
+        `  import { ${impl.useContext ? "createThemeStore" : "themeStore"} } from "./theme-store";`,
+        ...(impl.useContext ? [`  import { setThemeContext } from "./theme-context";`] : []),
+        "",
+        `  export let mode${typed ? ": ThemeMode" : ""} = "light";`,
+        "",
+        ...(impl.useContext
+            ? [`  const store = createThemeStore(mode);`, `  setThemeContext(store);`]
+            : [`  const store = themeStore;`, `  store.mode.set(mode);`]),
+        `  const { mode: activeMode, theme } = store;`,
+        "",
+        `  $: style = \`display: contents; \${toCssVariables($theme)}\`;`,
+        `</script>`,
+        "",
+        `<div class="theme-provider" data-theme={$activeMode} {style}>`,
+        `  <slot />`,
+        `</div>`
+    );
+    return lines;
+}
+
+// Stamp the saved mode onto <html class="%theme%"> in app.html before the page is sent
+function createServerHook(impl: SvelteThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+
+    return [
+        ...(typed ? [`import type { Handle } from "@sveltejs/kit";`] : []),
+        `import { THEME_COOKIE, parseThemeMode } from "$lib/theme/theme";`,
+        "",
+        `// Requires <html class="%theme%"> in src/app.html`,
+        `export const handle${typed ? ": Handle" : ""} = async ({ event, resolve }) => {`,
+        `  const mode = parseThemeMode(event.cookies.get(THEME_COOKIE));`,
+        `  return resolve(event, {`,
+        `    transformPageChunk: ({ html }) => html.replace("%theme%", mode),`,
+        `  });`,
+        `};`
+    ];
+}
+
+// Hand the saved mode to the root layout so ThemeProvider renders the same theme on the server
+function createLayoutLoad(impl: SvelteThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+
+    return [
+        ...(typed ? [`import type { LayoutServerLoad } from "./$types";`] : []),
+        `import { THEME_COOKIE, parseThemeMode } from "$lib/theme/theme";`,
+        "",
+        `export const load${typed ? ": LayoutServerLoad" : ""} = ({ cookies }) => ({`,
+        `  theme: parseThemeMode(cookies.get(THEME_COOKIE)),`,
+        `});`
+    ];
+}
+
+function indent(lines: string[], size: number): string[] {
+    return lines.map((line) => `${" ".repeat(size)}${line}`);
+}
+
+registerThemeCreator("svelte", createSvelteTheme, DEFAULT_SVELTE_THEME_IMPLEMENTATION);
@@ -1,3 +1,255 @@
 /** Application to take a color theme file and render as an TailwindCSS theme file(s) */
 
-// Import theme format file
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import { createHeaderComment, createThemeFile, formatJsObject, registerThemeCreator, ThemeFile } from "../theme-generator";
+import type { TailwindThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+type ColorGroups = Record<string, Record<string, string>>;
+
+// Default options for Tailwind theme generation
+export const DEFAULT_TAILWIND_THEME_IMPLEMENTATION: TailwindThemeImplementation = {
+    format: "tailwind",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "theme",
+    exportName: "theme",
+    useTypeScript: true,
+    extendColors: true,
+    generatePlugin: false,
+    generateCssVariables: false,
+    includeDarkMode: false,
+    darkModeStrategy: "class",
+    tailwindVersion: "3"
+};
+
+// Where dark values are declared for each dark mode strategy
+const DARK_MODE_SELECTORS: Record<TailwindThemeImplementation["darkModeStrategy"], string> = {
+    class: ".dark",
+    media: "@media (prefers-color-scheme: dark)",
+    selector: "[data-theme=\"dark\"]"
+};
+
+/**
+ * Render a theme as a Tailwind v3 config or a Tailwind v4 @theme stylesheet
+ */
+export function createTailwindTheme(theme: WebsiteThemeModel, impl: TailwindThemeImplementation): ThemeFile[] {
+    return impl.tailwindVersion === "4" ? createV4Theme(theme, impl) : createV3Theme(theme, impl);
+}
+
+// Tailwind v3: tailwind.config with theme colors, optionally via a plugin and CSS variables
+function createV3Theme(theme: WebsiteThemeModel, impl: TailwindThemeImplementation): ThemeFile[] {
+    const ext = impl.useTypeScript ? "ts" : "js";
+    const mimeType = impl.useTypeScript ? "text/typescript" : "text/javascript";
+    const colors = theme.toJsObject();
+    const darkColors = websiteThemeRepository.createDarkVariant(theme).toJsObject();
+    const files: ThemeFile[] = [];
+
+    const configColors: Record<string, unknown> = impl.generateCssVariables
+        ? toTailwindColors(colors, (group, key) => `var(${cssVariable(impl, group, key)})`)
+        : toTailwindColors(colors);
+
+    // Without CSS variables dark values cannot be swapped at runtime, so they get their own color group
+    if (impl.includeDarkMode && !impl.generateCssVariables) {
+        configColors.dark = toTailwindColors(darkColors);
+    }
+
+    const themeConfig = impl.extendColors
+        ? { extend: { colors: configColors } }
+        : { colors: configColors };
+
+    const configLines: string[] = [];
+    if (impl.includeComments) {
+        configLines.push(createHeaderComment(theme), "");
+    }
+    if (impl.useTypeScript) {
+        configLines.push(`import type { Config } from "tailwindcss";`);
+    }
+    if (impl.generatePlugin) {
+        configLines.push(`import themePlugin from "./tailwind-theme-plugin";`);
+    }
+    if (configLines.length > 0 && configLines[configLines.length - 1] !== "") {
+        configLines.push("");
+    }
+
+    const config: string[] = [`  content: ["./src/**/*.{html,js,jsx,ts,tsx,vue,svelte}"],`];
+    if (impl.includeDarkMode) {
+        config.push(`  darkMode: ${formatDarkMode(impl)},`);
+    }
+    if (impl.generatePlugin) {
+        config.push(`  plugins: [themePlugin],`);
+    } else {
+        config.push(`  theme: ${formatJsObject(themeConfig, 2, 1)},`, `  plugins: [],`);
+    }
+
+    if (!impl.useTypeScript) {
+        configLines.push(`/** @type {import("tailwindcss").Config} */`);
+    }
+    configLines.push(`export default {`, ...config, impl.useTypeScript ? `} satisfies Config;` : `};`);
+    files.push(createThemeFile(theme, `tailwind.config.${ext}`, mimeType, configLines.join("\n") + "\n"));
+
+    if (impl.generatePlugin) {
+        files.push(createThemeFile(
+            theme,
+            `tailwind-theme-plugin.${ext}`,
+            mimeType,
+            createV3Plugin(theme, impl, colors, darkColors, themeConfig)
+        ));
+    } else if (impl.generateCssVariables) {
+        const css = [
+            ...(impl.includeComments ? [createHeaderComment(theme, "css"), ""] : []),
+            createVariableBlocks(impl, colors, darkColors)
+        ].join("\n");
+        files.push(createThemeFile(theme, `${impl.exportName}.css`, "text/css", css + "\n"));
+    }
+
+    return files;
+}
+
+// Tailwind v3 plugin that extends the colors and injects the CSS variables
+function createV3Plugin(
+    theme: WebsiteThemeModel,
+    impl: TailwindThemeImplementation,
+    colors: ColorGroups,
+    darkColors: ColorGroups,
+    themeConfig: Record<string, unknown>
+): string {
+    const lines: string[] = [];
+    if (impl.includeComments) {
+        lines.push(createHeaderComment(theme), "");
+    }
+    lines.push(`import plugin from "tailwindcss/plugin";`, "");
+
+    if (impl.generateCssVariables) {
+        const base: Record<string, unknown> = { ":root": toVariableMap(impl, colors) };
+        if (impl.includeDarkMode) {
+            const selector = DARK_MODE_SELECTORS[impl.darkModeStrategy];
+            const darkVariables = changedVariables(base[":root"] as Record<string, string>, toVariableMap(impl, darkColors));
+            base[selector] = selector.startsWith("@media") ? { ":root": darkVariables } : darkVariables;
+        }
+        lines.push(
+            `export default plugin(`,
+            `  function ({ addBase }) {`,
+            `    addBase(${formatJsObject(base, 2, 2)});`,
+            `  },`
+        );
+    } else {
+        lines.push(`export default plugin(`, `  function () {},`);
+    }
+
+    lines.push(`  ${formatJsObject({ theme: themeConfig }, 2, 1)}`, `);`);
+    return lines.join("\n") + "\n";
+}
+
+// Tailwind v4: CSS-first @theme block, backed by :root variables when dark mode swaps values
+function createV4Theme(theme: WebsiteThemeModel, impl: TailwindThemeImplementation): ThemeFile[] {
+    const colors = theme.toJsObject();
+    const useVariables = impl.includeDarkMode || impl.generateCssVariables;
+    const sections: string[] = [];
+
+    if (impl.includeComments) {
+        sections.push(createHeaderComment(theme, "css"));
+    }
+    sections.push(`@import "tailwindcss";`);
+
+    if (impl.includeDarkMode && impl.darkModeStrategy !== "media") {
+        const selector = DARK_MODE_SELECTORS[impl.darkModeStrategy];
+        sections.push(`@custom-variant dark (&:where(${selector}, ${selector} *));`);
+    }
+
+    if (useVariables) {
+        const darkColors = websiteThemeRepository.createDarkVariant(theme).toJsObject();
+        sections.push(createVariableBlocks(impl, colors, darkColors));
+    }
+
+    const themeLines: string[] = [];
+    if (!impl.extendColors) {
+        themeLines.push(`  --color-*: initial;`);
+    }
+    for (const [group, values] of Object.entries(toTailwindColors(colors))) {
+        for (const [key, value] of Object.entries(values)) {
+            const name = key === "DEFAULT" ? `--color-${group}` : `--color-${group}-${key}`;
+            const source = key === "DEFAULT" ? defaultSourceKey(colors[group]) : key;
+            themeLines.push(`  ${name}: ${useVariables ? `var(${cssVariable(impl, group, source)})` : value};`);
+        }
+    }
+    sections.push(`${useVariables ? "@theme inline" : "@theme"} {\n${themeLines.join("\n")}\n}`);
+
+    return [createThemeFile(theme, `${impl.exportName}.css`, "text/css", sections.join("\n\n") + "\n")];
+}
+
+// Theme groups as Tailwind color scales: "default" becomes DEFAULT and brand colors get DEFAULT = main
+function toTailwindColors(
+    colors: ColorGroups,
+    valueFor: (group: string, key: string, value: string) => string = (_group, _key, value) => value
+): Record<string, Record<string, string>> {
+    const result: Record<string, Record<string, string>> = {};
+
+    for (const [group, values] of Object.entries(colors)) {
+        const scale: Record<string, string> = {};
+        const defaultKey = defaultSourceKey(values);
+        if (defaultKey) {
+            scale.DEFAULT = valueFor(group, defaultKey, values[defaultKey]);
+        }
+        for (const [key, value] of Object.entries(values)) {
+            if (key === "default") continue;
+            scale[key] = valueFor(group, key, value);
+        }
+        result[group] = scale;
+    }
+
+    return result;
+}
+
+// The key that backs a group's DEFAULT color
+function defaultSourceKey(values: Record<string, string>): string {
+    if (values.default) return "default";
+    if (values.main) return "main";
+    return "";
+}
+
+function cssVariable(impl: TailwindThemeImplementation, group: string, key: string): string {
+    return `--${impl.variablePrefix}-${group}-${key}`;
+}
+
+function toVariableMap(impl: TailwindThemeImplementation, colors: ColorGroups): Record<string, string> {
+    const variables: Record<string, string> = {};
+    for (const [group, values] of Object.entries(colors)) {
+        for (const [key, value] of Object.entries(values)) {
+            variables[cssVariable(impl, group, key)] = value;
+        }
+    }
+    return variables;
+}
+
+// Only the dark values that differ from light need to be redeclared
+function changedVariables(light: Record<string, string>, dark: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(dark).filter(([name, value]) => light[name] !== value));
+}
+
+// :root variables plus the dark values for the selected strategy
+function createVariableBlocks(impl: TailwindThemeImplementation, colors: ColorGroups, darkColors: ColorGroups): string {
+    const declarations = (variables: Record<string, string>, indent: string): string =>
+        Object.entries(variables).map(([name, value]) => `${indent}${name}: ${value};`).join("\n");
+
+    const light = toVariableMap(impl, colors);
+    const blocks = [`:root {\n${declarations(light, "  ")}\n}`];
+
+    if (impl.includeDarkMode) {
+        const dark = changedVariables(light, toVariableMap(impl, darkColors));
+        const selector = DARK_MODE_SELECTORS[impl.darkModeStrategy];
+        blocks.push(selector.startsWith("@media")
+            ? `${selector} {\n  :root {\n${declarations(dark, "    ")}\n  }\n}`
+            : `${selector} {\n${declarations(dark, "  ")}\n}`);
+    }
+
+    return blocks.join("\n\n");
+}
+
+function formatDarkMode(impl: TailwindThemeImplementation): string {
+    if (impl.darkModeStrategy === "selector") {
+        return `["selector", '${DARK_MODE_SELECTORS.selector}']`;
+    }
+    return JSON.stringify(impl.darkModeStrategy);
+}
+
+registerThemeCreator("tailwind", createTailwindTheme, DEFAULT_TAILWIND_THEME_IMPLEMENTATION);
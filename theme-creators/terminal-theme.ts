@@ -0,0 +1,352 @@
+/** Application to take a color theme file and render as terminal emulator theme file(s) */
+
+import { ColorModel, colorRepository } from "../models/color";
+import { colorCodeConverter, colorCodeFormatter, colorCodeParser } from "../models/color-code-format";
+import { colorFamilyClassifier } from "../models/color-family";
+import type { ColorPaletteModel } from "../models/color-palette";
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import {
+    createHeaderComment,
+    createHeaderLines,
+    createThemeFile,
+    registerThemeCreator,
+    ThemeFile,
+    ThemeHeader,
+    toArgbHex,
+    toThemeSlug
+} from "../theme-generator";
+import { COLOR_FAMILY } from "../ts-color-types/color-enums";
+import type { HslValues } from "../ts-color-types/color-types-index.d";
+import type { TerminalEmulator, TerminalThemeImplementation } from "../ts-theme-types/theme-file-index";
+import { serializeXml, XmlElement } from "../xml-maker";
+
+// Default options for terminal theme generation
+export const DEFAULT_TERMINAL_THEME_IMPLEMENTATION: TerminalThemeImplementation = {
+    format: "terminal",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "",
+    exportName: "",
+    terminals: ["alacritty", "kitty", "windows-terminal", "iterm2"],
+    useDarkVariant: false,
+    brightAmount: 15
+};
+
+const PLIST_DOCTYPE =
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">';
+
+/**
+ * An ANSI color slot: the families it may be filled from and the hue it ideally has
+ */
+interface AnsiSlot {
+    name: string;
+    families: COLOR_FAMILY[];
+    hue: number;
+}
+
+// Normal colors 1-6; black (0) and white (7) are the darkest and lightest colors
+const CHROMATIC_SLOTS: AnsiSlot[] = [
+    { name: "red", families: [COLOR_FAMILY.RED, COLOR_FAMILY.PINK], hue: 0 },
+    { name: "green", families: [COLOR_FAMILY.GREEN], hue: 120 },
+    { name: "yellow", families: [COLOR_FAMILY.YELLOW, COLOR_FAMILY.ORANGE], hue: 50 },
+    { name: "blue", families: [COLOR_FAMILY.BLUE], hue: 220 },
+    { name: "magenta", families: [COLOR_FAMILY.PURPLE, COLOR_FAMILY.PINK], hue: 300 },
+    { name: "cyan", families: [COLOR_FAMILY.BLUE, COLOR_FAMILY.GREEN], hue: 185 }
+];
+
+// Windows Terminal calls magenta purple
+const WINDOWS_TERMINAL_NAMES = ["black", "red", "green", "yellow", "blue", "purple", "cyan", "white"];
+const ANSI_NAMES = ["black", "red", "green", "yellow", "blue", "magenta", "cyan", "white"];
+
+/**
+ * A 16-color ANSI scheme with the special colors terminals use; all values are #RRGGBB
+ */
+interface TerminalScheme {
+    name: string;
+    description?: string;
+    background: string;
+    foreground: string;
+    cursor: string;
+    cursorText: string;
+    selectionBackground: string;
+    selectionForeground: string;
+    /** Normal colors 0-7 followed by bright colors 8-15 */
+    ansi: string[];
+}
+
+/**
+ * Render a theme as terminal color schemes. The theme's colors (status colors included) are
+ * the candidates for the ANSI colors; background, foreground and cursor come from its roles.
+ *
+ * Each emulator gets one file, in the order of impl.terminals.
+ */
+export function createTerminalTheme(theme: WebsiteThemeModel, impl: TerminalThemeImplementation): ThemeFile[] {
+    const source = impl.useDarkVariant ? websiteThemeRepository.createDarkVariant(theme) : theme;
+    const colors = Object.entries(source.toJsObject()).flatMap(([group, values]) =>
+        Object.entries(values)
+            .map(([key, value]) => toColorModel(value, `${group}.${key}`))
+            .filter((color): color is ColorModel => color !== null)
+    );
+    const roles = source.toJsObject();
+    const ansi = createAnsiColors(colors, impl);
+
+    const background = normalizeHex(roles.background?.default) ?? ansi[0];
+
+    const scheme: TerminalScheme = {
+        name: source.themeName,
+        description: theme.themeDescription,
+        background,
+        foreground: normalizeHex(roles.text?.primary) ?? ansi[7],
+        cursor: normalizeHex(roles.text?.primary) ?? ansi[7],
+        cursorText: background,
+        selectionBackground: blendOver(roles.interaction?.selected ?? roles.surface?.variant, background) ?? ansi[8],
+        selectionForeground: normalizeHex(roles.text?.primary) ?? ansi[7],
+        ansi
+    };
+
+    const slug = impl.exportName || toThemeSlug(theme.themeName);
+    return createSchemeFiles(scheme, slug, impl).map(([filepath, mimeType, content]) =>
+        createThemeFile(theme, filepath, mimeType, content)
+    );
+}
+
+/**
+ * Render a palette as terminal color schemes, using its darkest color as the background
+ * and its lightest as the foreground
+ */
+export function createTerminalPaletteThemes(
+    palette: ColorPaletteModel,
+    colors: Map<string, ColorModel[]>,
+    impl: TerminalThemeImplementation = DEFAULT_TERMINAL_THEME_IMPLEMENTATION
+): ThemeFile[] {
+    const ansi = createAnsiColors(Array.from(colors.values()).flat(), impl);
+    const scheme: TerminalScheme = {
+        name: palette.paletteName,
+        description: palette.description,
+        background: ansi[0],
+        foreground: ansi[7],
+        cursor: ansi[7],
+        cursorText: ansi[0],
+        selectionBackground: ansi[8],
+        selectionForeground: ansi[15],
+        ansi
+    };
+
+    const slug = impl.exportName || toThemeSlug(palette.paletteName);
+    return createSchemeFiles(scheme, slug, impl).map(([filepath, mimeType, content]) => ({
+        themeName: palette.paletteName,
+        filename: filepath,
+        filepath,
+        mimeType,
+        content
+    }));
+}
+
+// Pick the 8 normal colors with the classifier, then lighten them into the bright ones
+function createAnsiColors(colors: ColorModel[], impl: TerminalThemeImplementation): string[] {
+    const candidates = colors.filter((color) => color.colorCodes.hsl?.values);
+    const byLightness = [...candidates].sort(
+        (a, b) => a.colorCodes.hsl!.values.l - b.colorCodes.hsl!.values.l
+    );
+    const darkest = byLightness[0];
+    const lightest = byLightness[byLightness.length - 1];
+
+    const black = darkest && darkest.colorCodes.hsl!.values.l <= 25 ? darkest : fromHsl({ h: 0, s: 0, l: 12 });
+    const white = lightest && lightest.colorCodes.hsl!.values.l >= 75 ? lightest : fromHsl({ h: 0, s: 0, l: 88 });
+
+    const used = new Set<ColorModel>([black, white]);
+    const chromatic = CHROMATIC_SLOTS.map((slot) => {
+        const picked = pickSlotColor(candidates, slot, used);
+        used.add(picked);
+        return picked;
+    });
+
+    const pairs = [black, ...chromatic, white].map((color, index): [ColorModel, ColorModel] => {
+        // Bright black needs a bigger step to stand apart from the background
+        const amount = index === 0 ? impl.brightAmount + 15 : impl.brightAmount;
+        // Colors already near full lightness become the bright variant of a darker normal color
+        return color.colorCodes.hsl!.values.l + amount > 100
+            ? [fromHsl(color.darken(amount)!), color]
+            : [color, fromHsl(color.lighten(amount)!)];
+    });
+
+    return [...pairs.map(([normal]) => normal), ...pairs.map(([, bright]) => bright)].map((color) =>
+        color.getHexString()
+    );
+}
+
+// Closest hue among the slot's families; unused colors win over reused ones
+function pickSlotColor(candidates: ColorModel[], slot: AnsiSlot, used: Set<ColorModel>): ColorModel {
+    const hueDistance = (color: ColorModel): number => {
+        const distance = Math.abs(color.colorCodes.hsl!.values.h - slot.hue) % 360;
+        return Math.min(distance, 360 - distance);
+    };
+
+    const matches = candidates
+        .filter((color) => slot.families.includes(colorFamilyClassifier.classifyColor(color)))
+        .filter((color) => {
+            const { s, l } = color.colorCodes.hsl!.values;
+            return s >= 25 && l >= 20 && l <= 80;
+        })
+        .sort((a, b) =>
+            Number(used.has(a)) - Number(used.has(b))
+            || hueDistance(a) - hueDistance(b)
+            || b.colorCodes.hsl!.values.s - a.colorCodes.hsl!.values.s
+        );
+
+    return matches[0] ?? fromHsl({ h: slot.hue, s: 60, l: 50 });
+}
+
+// [filepath, mimeType, content] for each requested emulator
+function createSchemeFiles(
+    scheme: TerminalScheme,
+    slug: string,
+    impl: TerminalThemeImplementation
+): Array<[string, string, string]> {
+    const writers: Record<TerminalEmulator, () => [string, string, string]> = {
+        alacritty: () => [`${slug}.toml`, "application/toml", createAlacrittyScheme(scheme, impl)],
+        kitty: () => [`${slug}.conf`, "text/plain", createKittyScheme(scheme, impl)],
+        "windows-terminal": () => [`${slug}.json`, "application/json", createWindowsTerminalScheme(scheme, impl)],
+        iterm2: () => [`${slug}.itermcolors`, "application/x-plist", createItermScheme(scheme, impl)]
+    };
+
+    return impl.terminals.map((terminal) => writers[terminal]());
+}
+
+function createAlacrittyScheme(scheme: TerminalScheme, impl: TerminalThemeImplementation): string {
+    const table = (name: string, entries: Array<[string, string]>): string[] => [
+        `[${name}]`,
+        ...entries.map(([key, value]) => `${key} = "${value}"`),
+        ""
+    ];
+
+    const lines = [
+        ...(impl.includeComments ? [createHeaderComment(toHeader(scheme), "#"), ""] : []),
+        ...table("colors.primary", [["background", scheme.background], ["foreground", scheme.foreground]]),
+        ...table("colors.cursor", [["text", scheme.cursorText], ["cursor", scheme.cursor]]),
+        ...table("colors.selection", [["text", scheme.selectionForeground], ["background", scheme.selectionBackground]]),
+        ...table("colors.normal", ANSI_NAMES.map((name, index) => [name, scheme.ansi[index]])),
+        ...table("colors.bright", ANSI_NAMES.map((name, index) => [name, scheme.ansi[index + 8]]))
+    ];
+
+    return lines.join("\n").trimEnd() + "\n";
+}
+
+function createKittyScheme(scheme: TerminalScheme, impl: TerminalThemeImplementation): string {
+    const lines = [
+        ...(impl.includeComments ? [createHeaderComment(toHeader(scheme), "#"), ""] : []),
+        `foreground ${scheme.foreground}`,
+        `background ${scheme.background}`,
+        `cursor ${scheme.cursor}`,
+        `cursor_text_color ${scheme.cursorText}`,
+        `selection_foreground ${scheme.selectionForeground}`,
+        `selection_background ${scheme.selectionBackground}`,
+        "",
+        ...scheme.ansi.map((value, index) => `color${index} ${value}`)
+    ];
+
+    return lines.join("\n") + "\n";
+}
+
+// A single entry for the "schemes" list in Windows Terminal's settings.json
+function createWindowsTerminalScheme(scheme: TerminalScheme, impl: TerminalThemeImplementation): string {
+    const colors = Object.fromEntries(
+        WINDOWS_TERMINAL_NAMES.flatMap((name, index) => [
+            [name, scheme.ansi[index]],
+            [`bright${name.charAt(0).toUpperCase()}${name.slice(1)}`, scheme.ansi[index + 8]]
+        ])
+    );
+    const entry = {
+        name: scheme.name,
+        background: scheme.background,
+        foreground: scheme.foreground,
+        cursorColor: scheme.cursor,
+        selectionBackground: scheme.selectionBackground,
+        ...colors
+    };
+
+    return impl.minify ? JSON.stringify(entry) : JSON.stringify(entry, null, 4) + "\n";
+}
+
+function createItermScheme(scheme: TerminalScheme, impl: TerminalThemeImplementation): string {
+    const entries: Array<[string, string]> = [
+        ...scheme.ansi.map((value, index): [string, string] => [`Ansi ${index} Color`, value]),
+        ["Background Color", scheme.background],
+        ["Foreground Color", scheme.foreground],
+        ["Bold Color", scheme.foreground],
+        ["Cursor Color", scheme.cursor],
+        ["Cursor Text Color", scheme.cursorText],
+        ["Selection Color", scheme.selectionBackground],
+        ["Selected Text Color", scheme.selectionForeground]
+    ];
+
+    const children = entries.flatMap(([key, value]): XmlElement[] => [
+        { name: "key", text: key },
+        { name: "dict", children: createItermColor(value) }
+    ]);
+    const plist: XmlElement = {
+        name: "plist",
+        attributes: { version: "1.0" },
+        children: [{ name: "dict", children }]
+    };
+
+    return serializeXml(plist, {
+        prettyPrint: !impl.minify,
+        indentSize: 4,
+        doctype: PLIST_DOCTYPE,
+        comments: impl.includeComments ? createHeaderLines(toHeader(scheme)) : []
+    });
+}
+
+// iTerm2 stores each channel as a 0-1 real
+function createItermColor(value: string): XmlElement[] {
+    const rgb = colorCodeParser.parseToRgb(value)!;
+    const component = (key: string, channel: number): XmlElement[] => [
+        { name: "key", text: `${key} Component` },
+        { name: "real", text: (channel / 255).toFixed(6) }
+    ];
+
+    return [
+        ...component("Alpha", 255),
+        ...component("Blue", rgb.b),
+        { name: "key", text: "Color Space" },
+        { name: "string", text: "sRGB" },
+        ...component("Green", rgb.g),
+        ...component("Red", rgb.r)
+    ];
+}
+
+function toColorModel(value: string, name: string): ColorModel | null {
+    const hex = normalizeHex(value);
+    return hex ? colorRepository.createFromHex(hex, name) : null;
+}
+
+function fromHsl(hsl: HslValues): ColorModel {
+    const hex = colorCodeFormatter.formatHex(colorCodeConverter.rgbToHex(colorCodeConverter.hslToRgb(hsl)));
+    return colorRepository.createFromHex(hex, hex);
+}
+
+// Any supported color code as #RRGGBB
+function normalizeHex(value: string | undefined): string | undefined {
+    const rgb = value ? colorCodeParser.parseToRgb(value) : null;
+    return rgb ? colorCodeFormatter.formatHex(colorCodeConverter.rgbToHex(rgb)) : undefined;
+}
+
+// Terminals take opaque colors, so a translucent color is composited over the background
+function blendOver(value: string | undefined, background: string): string | undefined {
+    const argb = value ? toArgbHex(value) : null;
+    const base = colorCodeParser.parseToRgb(background);
+    if (!argb || !base) return normalizeHex(value);
+
+    const alpha = parseInt(argb.slice(0, 2), 16) / 255;
+    const channel = (offset: number, under: number): number =>
+        Math.round(parseInt(argb.slice(offset, offset + 2), 16) * alpha + under * (1 - alpha));
+    const rgb = { r: channel(2, base.r), g: channel(4, base.g), b: channel(6, base.b) };
+    return colorCodeFormatter.formatHex(colorCodeConverter.rgbToHex(rgb));
+}
+
+function toHeader(scheme: TerminalScheme): ThemeHeader {
+    return { themeName: scheme.name, themeDescription: scheme.description };
+}
+
+registerThemeCreator("terminal", createTerminalTheme, DEFAULT_TERMINAL_THEME_IMPLEMENTATION);
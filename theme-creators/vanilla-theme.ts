@@ -1,3 +1,191 @@
 /** Application to take a color theme file and render as an Vanilla theme file(s) */
 
-// Import theme format file
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import { createHeaderComment, createThemeFile, formatJsObject, registerThemeCreator, ThemeFile } from "../theme-generator";
+import type { VanillaThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Default options for vanilla-extract theme generation
+export const DEFAULT_VANILLA_THEME_IMPLEMENTATION: VanillaThemeImplementation = {
+    format: "vanilla",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "",
+    exportName: "theme",
+    generateContract: true,
+    generateVariants: false,
+    generateSprinkles: false,
+    generateDarkMode: true,
+    exportVars: true,
+    useAssignVars: false
+};
+
+type ThemeColors = Record<string, Record<string, string>>;
+
+/**
+ * Render a theme as vanilla-extract .css.ts modules: a theme contract, light/dark
+ * theme classes (or assignVars rules) and optional style variants and sprinkles
+ *
+ * A variablePrefix switches the contract to createGlobalThemeContract so the custom
+ * properties get readable --<prefix>-<group>-<key> names instead of hashed ones.
+ */
+export function createVanillaTheme(theme: WebsiteThemeModel, impl: VanillaThemeImplementation): ThemeFile[] {
+    const header = impl.includeComments ? [createHeaderComment(theme), ""] : [];
+    const light = theme.toJsObject();
+    const dark = websiteThemeRepository.createDarkVariant(theme).toJsObject();
+
+    const file = (filepath: string, lines: string[]): ThemeFile =>
+        createThemeFile(theme, filepath, "text/typescript", [...header, ...lines].join("\n") + "\n");
+
+    const files = [file(`${impl.exportName}.css.ts`, createThemeModule(impl, light, dark))];
+
+    if (impl.generateSprinkles) {
+        files.push(file("sprinkles.css.ts", createSprinkles(impl, light)));
+    }
+
+    return files;
+}
+
+// Contract, light/dark themes and optional style variants
+function createThemeModule(impl: VanillaThemeImplementation, light: ThemeColors, dark: ThemeColors): string[] {
+    const prefix = impl.variablePrefix.replace(/^-+/, "");
+    // assignVars needs a contract to assign into, so it implies one
+    const useContract = impl.generateContract || impl.useAssignVars;
+    const globalContract = useContract && prefix !== "";
+    // Sprinkles import the vars, so they are exported whenever sprinkles are generated
+    const exportVars = impl.exportVars || impl.generateSprinkles;
+    const varsExport = exportVars ? "export " : "";
+
+    const cssImports = new Set<string>();
+    const lines: string[] = [];
+
+    if (useContract) {
+        const shape = Object.fromEntries(
+            Object.entries(light).map(([group, colors]) => [
+                group,
+                Object.fromEntries(Object.keys(colors).map((key) => [key, null]))
+            ])
+        );
+        if (globalContract) {
+            cssImports.add("createGlobalThemeContract");
+            lines.push(
+                ...comment(impl, `Custom properties are named --${prefix}-<group>-<key>`),
+                `${varsExport}const vars = createGlobalThemeContract(`,
+                `  ${formatJsObject(shape, 2, 1)},`,
+                `  (_value, path) => \`${prefix}-\${path.join("-")}\``,
+                `);`
+            );
+        } else {
+            cssImports.add("createThemeContract");
+            lines.push(`${varsExport}const vars = createThemeContract(${formatJsObject(shape)});`);
+        }
+        lines.push("");
+    }
+
+    if (impl.useAssignVars) {
+        cssImports.add("assignVars").add("globalStyle");
+        const scope = impl.generateDarkMode ? `Light values on :root, dark values under [data-theme="dark"]` : "Values on :root";
+        lines.push(
+            ...comment(impl, scope),
+            `globalStyle(":root", {`,
+            `  vars: assignVars(vars, ${formatJsObject(light, 2, 1)}),`,
+            `});`
+        );
+        if (impl.generateDarkMode) {
+            lines.push(
+                "",
+                `globalStyle('[data-theme="dark"]', {`,
+                `  vars: assignVars(vars, ${formatJsObject(dark, 2, 1)}),`,
+                `});`
+            );
+        }
+    } else if (useContract) {
+        cssImports.add("createTheme");
+        lines.push(
+            ...comment(impl, "Add a theme class to the root element to apply its values"),
+            `export const lightThemeClass = createTheme(vars, ${formatJsObject(light)});`
+        );
+        if (impl.generateDarkMode) {
+            lines.push("", `export const darkThemeClass = createTheme(vars, ${formatJsObject(dark)});`);
+        }
+    } else {
+        // Without a contract the light theme defines the vars and the dark theme reuses them
+        cssImports.add("createTheme");
+        lines.push(
+            ...comment(impl, "Add a theme class to the root element to apply its values"),
+            `${varsExport}const [lightThemeClass, vars] = createTheme(${formatJsObject(light)});`
+        );
+        if (impl.generateDarkMode) {
+            lines.push("", `export const darkThemeClass = createTheme(vars, ${formatJsObject(dark)});`);
+        }
+        if (!exportVars) {
+            lines.push("", `export { lightThemeClass };`);
+        }
+    }
+
+    if (impl.generateVariants) {
+        const groups = Object.entries(light).filter(([, colors]) => "main" in colors);
+        if (groups.length > 0) {
+            cssImports.add("styleVariants");
+            lines.push(
+                "",
+                ...comment(impl, "Filled surfaces for each brand color, e.g. className={brandVariants.primary}"),
+                `export const brandVariants = styleVariants({`,
+                ...groups.flatMap(([group, colors]) => [
+                    `  ${formatKey(group)}: {`,
+                    `    backgroundColor: ${varPath(group, "main")},`,
+                    ...("contrast" in colors ? [`    color: ${varPath(group, "contrast")},`] : []),
+                    `  },`
+                ]),
+                `});`
+            );
+        }
+    }
+
+    return [`import { ${[...cssImports].sort().join(", ")} } from "@vanilla-extract/css";`, "", ...lines];
+}
+
+// Atomic color and backgroundColor classes over every theme color
+function createSprinkles(impl: VanillaThemeImplementation, light: ThemeColors): string[] {
+    const entries = Object.entries(light).flatMap(([group, colors]) =>
+        Object.keys(colors).map((key) => `  ${formatKey(`${group}-${key}`)}: ${varPath(group, key)},`)
+    );
+
+    return [
+        `import { createSprinkles, defineProperties } from "@vanilla-extract/sprinkles";`,
+        `import { vars } from "./${impl.exportName}.css";`,
+        "",
+        `const themeColors = {`,
+        ...entries,
+        `};`,
+        "",
+        `const colorProperties = defineProperties({`,
+        `  properties: {`,
+        `    color: themeColors,`,
+        `    backgroundColor: themeColors,`,
+        `  },`,
+        `});`,
+        "",
+        ...comment(impl, `sprinkles({ color: "text-primary", backgroundColor: "background-default" })`),
+        `export const sprinkles = createSprinkles(colorProperties);`,
+        "",
+        `export type Sprinkles = Parameters<typeof sprinkles>[0];`
+    ];
+}
+
+function varPath(group: string, key: string): string {
+    return `vars${formatAccess(group)}${formatAccess(key)}`;
+}
+
+function formatAccess(key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+}
+
+function formatKey(key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function comment(impl: VanillaThemeImplementation, text: string): string[] {
+    return impl.includeComments ? [`// ${text}`] : [];
+}
+
+registerThemeCreator("vanilla", createVanillaTheme, DEFAULT_VANILLA_THEME_IMPLEMENTATION);
@@ -0,0 +1,396 @@
+/** Application to take a color theme file and render as a VS Code theme file(s) */
+
+import { ColorModel } from "../models/color";
+import { colorCodeConverter, colorCodeFormatter, colorCodeParser } from "../models/color-code-format";
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import { createHeaderComment, createThemeFile, getContentColor, registerThemeCreator, ThemeFile, toArgbHex, toThemeSlug } from "../theme-generator";
+import type { VscodeThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Default options for VS Code theme generation
+export const DEFAULT_VSCODE_THEME_IMPLEMENTATION: VscodeThemeImplementation = {
+    format: "vscode",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "",
+    exportName: "",
+    themeType: "auto",
+    generateDarkVariant: true,
+    generateExtensionManifest: true,
+    italicComments: true
+};
+
+// Syntax colors must reach this contrast ratio against the editor background
+const MIN_SYNTAX_CONTRAST = 3;
+
+/**
+ * A workbench color key and the theme colors that can fill it
+ */
+interface WorkbenchColor {
+    key: string;
+    /** Theme color paths in order of preference */
+    colors: string[];
+    /** Alpha appended as #RRGGBBAA, for highlights drawn over text */
+    alpha?: string;
+    /** Color the key is drawn on; black or white is computed when no path resolves */
+    contentFor?: string;
+}
+
+/**
+ * A tokenColors rule; the first candidate readable on the editor background wins
+ */
+interface SyntaxRule {
+    name: string;
+    scope: string[];
+    colors: string[];
+    fontStyle?: string;
+}
+
+const WORKBENCH_COLORS: WorkbenchColor[] = [
+    // Base
+    { key: "foreground", colors: ["text.primary"] },
+    { key: "descriptionForeground", colors: ["text.secondary"] },
+    { key: "errorForeground", colors: ["status.error"] },
+    { key: "focusBorder", colors: ["border.focus", "primary.light", "primary.main"] },
+    { key: "widget.shadow", colors: ["shadow.medium"] },
+    { key: "textLink.foreground", colors: ["link.default", "primary.main"] },
+    { key: "textLink.activeForeground", colors: ["link.hover", "link.active"] },
+
+    // Editor
+    { key: "editor.background", colors: ["background.default"] },
+    { key: "editor.foreground", colors: ["text.primary"] },
+    { key: "editorCursor.foreground", colors: ["accent.main", "primary.main"] },
+    { key: "editor.selectionBackground", colors: ["primary.main"], alpha: "40" },
+    { key: "editor.inactiveSelectionBackground", colors: ["primary.main"], alpha: "20" },
+    { key: "editor.selectionHighlightBackground", colors: ["secondary.main", "primary.light"], alpha: "30" },
+    { key: "editor.findMatchBackground", colors: ["accent.main", "status.warning"], alpha: "60" },
+    { key: "editor.findMatchHighlightBackground", colors: ["accent.light", "accent.main"], alpha: "40" },
+    { key: "editor.lineHighlightBackground", colors: ["interaction.hover", "surface.variant"] },
+    { key: "editorLineNumber.foreground", colors: ["text.hint", "text.disabled", "text.secondary"] },
+    { key: "editorLineNumber.activeForeground", colors: ["text.secondary", "text.primary"] },
+    { key: "editorIndentGuide.background1", colors: ["border.light", "border.default"] },
+    { key: "editorIndentGuide.activeBackground1", colors: ["border.default", "border.focus"] },
+    { key: "editorWhitespace.foreground", colors: ["text.disabled", "border.default"] },
+    { key: "editorBracketMatch.border", colors: ["border.focus", "primary.light"] },
+    { key: "editorGutter.background", colors: ["background.default"] },
+    { key: "editorError.foreground", colors: ["status.error"] },
+    { key: "editorWarning.foreground", colors: ["status.warning"] },
+    { key: "editorInfo.foreground", colors: ["status.info"] },
+    { key: "editorWidget.background", colors: ["background.elevated", "background.paper"] },
+    { key: "editorWidget.border", colors: ["border.default"] },
+    { key: "editorGroupHeader.tabsBackground", colors: ["background.paper", "surface.default"] },
+    { key: "editorGroup.border", colors: ["border.default"] },
+
+    // Tabs
+    { key: "tab.activeBackground", colors: ["background.default"] },
+    { key: "tab.activeForeground", colors: ["text.primary"] },
+    { key: "tab.activeBorderTop", colors: ["primary.main"] },
+    { key: "tab.inactiveBackground", colors: ["background.paper", "surface.default"] },
+    { key: "tab.inactiveForeground", colors: ["text.secondary"] },
+    { key: "tab.border", colors: ["border.default"] },
+
+    // Side bar and activity bar
+    { key: "sideBar.background", colors: ["background.paper", "surface.default"] },
+    { key: "sideBar.foreground", colors: ["text.secondary", "text.primary"] },
+    { key: "sideBar.border", colors: ["border.default"] },
+    { key: "sideBarTitle.foreground", colors: ["text.primary"] },
+    { key: "sideBarSectionHeader.background", colors: ["surface.variant", "background.elevated"] },
+    { key: "sideBarSectionHeader.foreground", colors: ["text.primary"] },
+    { key: "activityBar.background", colors: ["background.elevated", "background.paper"] },
+    { key: "activityBar.foreground", colors: ["primary.main"] },
+    { key: "activityBar.inactiveForeground", colors: ["text.disabled", "text.secondary"] },
+    { key: "activityBar.border", colors: ["border.default"] },
+    { key: "activityBarBadge.background", colors: ["accent.main", "primary.main"] },
+    { key: "activityBarBadge.foreground", colors: ["accent.contrast"], contentFor: "accent.main" },
+
+    // Lists
+    { key: "list.activeSelectionBackground", colors: ["interaction.selected", "primary.light"] },
+    { key: "list.activeSelectionForeground", colors: ["text.primary"] },
+    { key: "list.inactiveSelectionBackground", colors: ["interaction.active", "surface.variant"] },
+    { key: "list.hoverBackground", colors: ["interaction.hover", "surface.variant"] },
+    { key: "list.focusOutline", colors: ["border.focus", "primary.main"] },
+    { key: "list.highlightForeground", colors: ["primary.main"] },
+
+    // Title bar and status bar
+    { key: "titleBar.activeBackground", colors: ["primary.main"] },
+    { key: "titleBar.activeForeground", colors: ["primary.contrast"], contentFor: "primary.main" },
+    { key: "titleBar.inactiveBackground", colors: ["primary.dark", "primary.main"] },
+    { key: "titleBar.inactiveForeground", colors: ["primary.contrast"], contentFor: "primary.dark" },
+    { key: "statusBar.background", colors: ["primary.dark", "primary.main"] },
+    { key: "statusBar.foreground", colors: ["primary.contrast"], contentFor: "primary.dark" },
+    { key: "statusBar.noFolderBackground", colors: ["secondary.main", "primary.main"] },
+    { key: "statusBar.debuggingBackground", colors: ["status.warning", "accent.main"] },
+    { key: "statusBar.debuggingForeground", colors: [], contentFor: "status.warning" },
+
+    // Panels and terminal
+    { key: "panel.background", colors: ["background.paper", "background.default"] },
+    { key: "panel.border", colors: ["border.default"] },
+    { key: "panelTitle.activeBorder", colors: ["primary.main"] },
+    { key: "panelTitle.activeForeground", colors: ["text.primary"] },
+    { key: "panelTitle.inactiveForeground", colors: ["text.secondary"] },
+    { key: "terminal.background", colors: ["background.default"] },
+    { key: "terminal.foreground", colors: ["text.primary"] },
+
+    // Inputs and buttons
+    { key: "input.background", colors: ["background.elevated", "surface.default"] },
+    { key: "input.foreground", colors: ["text.primary"] },
+    { key: "input.border", colors: ["border.default"] },
+    { key: "input.placeholderForeground", colors: ["text.hint", "text.disabled"] },
+    { key: "dropdown.background", colors: ["background.elevated", "surface.default"] },
+    { key: "dropdown.border", colors: ["border.default"] },
+    { key: "button.background", colors: ["primary.main"] },
+    { key: "button.foreground", colors: ["primary.contrast"], contentFor: "primary.main" },
+    { key: "button.hoverBackground", colors: ["primary.dark", "primary.light"] },
+    { key: "button.secondaryBackground", colors: ["secondary.main"] },
+    { key: "button.secondaryForeground", colors: ["secondary.contrast"], contentFor: "secondary.main" },
+    { key: "badge.background", colors: ["secondary.main", "primary.main"] },
+    { key: "badge.foreground", colors: ["secondary.contrast"], contentFor: "secondary.main" },
+    { key: "scrollbarSlider.background", colors: ["text.disabled", "border.default"], alpha: "40" },
+    { key: "scrollbarSlider.hoverBackground", colors: ["text.disabled", "border.default"], alpha: "60" },
+    { key: "scrollbarSlider.activeBackground", colors: ["text.secondary", "border.focus"], alpha: "80" },
+
+    // Source control
+    { key: "gitDecoration.addedResourceForeground", colors: ["status.success"] },
+    { key: "gitDecoration.modifiedResourceForeground", colors: ["status.warning"] },
+    { key: "gitDecoration.deletedResourceForeground", colors: ["status.error"] },
+    { key: "gitDecoration.untrackedResourceForeground", colors: ["status.info"] },
+    { key: "gitDecoration.ignoredResourceForeground", colors: ["text.disabled"] }
+];
+
+const SYNTAX_RULES: SyntaxRule[] = [
+    {
+        name: "Comments",
+        scope: ["comment", "punctuation.definition.comment"],
+        colors: ["text.hint", "text.disabled", "text.secondary"]
+    },
+    {
+        name: "Keywords and storage",
+        scope: ["keyword", "storage.type", "storage.modifier", "keyword.control"],
+        colors: ["primary.main", "primary.light", "primary.dark"]
+    },
+    {
+        name: "Operators and punctuation",
+        scope: ["keyword.operator", "punctuation", "meta.brace"],
+        colors: ["text.secondary"]
+    },
+    {
+        name: "Strings",
+        scope: ["string", "string.quoted", "string.template"],
+        colors: ["status.success", "secondary.light", "secondary.main"]
+    },
+    {
+        name: "Escapes and regular expressions",
+        scope: ["constant.character.escape", "string.regexp"],
+        colors: ["status.warning", "accent.light"]
+    },
+    {
+        name: "Numbers and constants",
+        scope: ["constant.numeric", "constant.language", "constant.other", "support.constant"],
+        colors: ["accent.main", "accent.light", "accent.dark"]
+    },
+    {
+        name: "Functions",
+        scope: ["entity.name.function", "support.function", "meta.function-call"],
+        colors: ["secondary.main", "secondary.light", "secondary.dark"]
+    },
+    {
+        name: "Types and classes",
+        scope: ["entity.name.type", "entity.name.class", "support.type", "support.class", "entity.other.inherited-class"],
+        colors: ["accent.dark", "link.default", "primary.light"]
+    },
+    {
+        name: "Variables and parameters",
+        scope: ["variable", "variable.parameter", "meta.definition.variable"],
+        colors: ["text.primary"]
+    },
+    {
+        name: "Properties",
+        scope: ["variable.other.property", "support.variable.property", "meta.object-literal.key"],
+        colors: ["text.secondary"]
+    },
+    {
+        name: "Tags",
+        scope: ["entity.name.tag", "punctuation.definition.tag"],
+        colors: ["primary.main", "primary.light"]
+    },
+    {
+        name: "Attributes",
+        scope: ["entity.other.attribute-name"],
+        colors: ["accent.main", "secondary.main"]
+    },
+    {
+        name: "Invalid",
+        scope: ["invalid", "invalid.illegal"],
+        colors: ["status.error"]
+    },
+    {
+        name: "Headings",
+        scope: ["markup.heading", "entity.name.section"],
+        colors: ["primary.main", "primary.light"],
+        fontStyle: "bold"
+    },
+    { name: "Bold", scope: ["markup.bold"], colors: [], fontStyle: "bold" },
+    { name: "Italic", scope: ["markup.italic"], colors: [], fontStyle: "italic" },
+    { name: "Links", scope: ["markup.underline.link"], colors: ["link.default"], fontStyle: "underline" },
+    { name: "Inserted", scope: ["markup.inserted"], colors: ["status.success"] },
+    { name: "Deleted", scope: ["markup.deleted"], colors: ["status.error"] },
+    { name: "Changed", scope: ["markup.changed"], colors: ["status.warning"] }
+];
+
+/**
+ * Render a theme as a VS Code color theme: workbench colors mapped from the theme roles and
+ * tokenColors for syntax, plus an extension package.json contributing it
+ *
+ * Syntax colors fall back to text.primary when no candidate is readable on the editor background.
+ */
+export function createVscodeTheme(theme: WebsiteThemeModel, impl: VscodeThemeImplementation): ThemeFile[] {
+    const slug = impl.exportName || toThemeSlug(theme.themeName);
+    const dir = impl.generateExtensionManifest ? "themes/" : "";
+    const variants = [{ theme, filename: `${dir}${slug}-color-theme.json`, type: getThemeType(theme, impl) }];
+
+    if (impl.generateDarkVariant) {
+        const dark = websiteThemeRepository.createDarkVariant(theme);
+        variants.push({ theme: dark, filename: `${dir}${slug}-dark-color-theme.json`, type: "dark" });
+    }
+
+    const files = variants.map((variant) =>
+        createThemeFile(
+            theme,
+            variant.filename,
+            "application/json",
+            createColorTheme(variant.theme, variant.type, impl)
+        )
+    );
+
+    if (impl.generateExtensionManifest) {
+        const manifest = {
+            name: `${slug}-theme`,
+            displayName: `${theme.themeName} Theme`,
+            description: theme.themeDescription ?? `${theme.themeName} color theme`,
+            version: "0.0.1",
+            engines: { vscode: "^1.70.0" },
+            categories: ["Themes"],
+            contributes: {
+                themes: variants.map((variant) => ({
+                    label: variant.theme.themeName,
+                    uiTheme: variant.type === "dark" ? "vs-dark" : "vs",
+                    path: `./${variant.filename}`
+                }))
+            }
+        };
+        files.push(createThemeFile(theme, "package.json", "application/json", toJson(manifest, impl)));
+    }
+
+    return files;
+}
+
+function createColorTheme(theme: WebsiteThemeModel, type: "light" | "dark", impl: VscodeThemeImplementation): string {
+    const colors = theme.toJsObject();
+
+    const workbench: Record<string, string> = {};
+    for (const entry of WORKBENCH_COLORS) {
+        const contentBackground = entry.contentFor ? resolveColor(colors, [entry.contentFor]) : undefined;
+        const value = resolveColor(colors, entry.colors)
+            ?? (contentBackground ? getContentColor(contentBackground) : undefined);
+        if (value) {
+            workbench[entry.key] = entry.alpha ? withAlpha(value, entry.alpha) : value;
+        }
+    }
+
+    const background = workbench["editor.background"];
+    const tokenColors = SYNTAX_RULES.flatMap((rule) => {
+        const foreground = pickReadable(colors, rule.colors, background);
+        const fontStyle = rule.scope.includes("comment") && impl.italicComments ? "italic" : rule.fontStyle;
+        const settings = {
+            ...(rule.colors.length > 0 && foreground ? { foreground } : {}),
+            ...(fontStyle ? { fontStyle } : {})
+        };
+        return Object.keys(settings).length > 0 ? [{ name: rule.name, scope: rule.scope, settings }] : [];
+    });
+
+    const colorTheme = {
+        $schema: "vscode://schemas/color-theme",
+        name: theme.themeName,
+        type,
+        semanticHighlighting: true,
+        colors: workbench,
+        tokenColors
+    };
+
+    // VS Code reads color themes as JSONC, so the header can be a comment
+    const header = impl.includeComments && !impl.minify ? createHeaderComment(theme) + "\n" : "";
+    return header + toJson(colorTheme, impl);
+}
+
+function getThemeType(theme: WebsiteThemeModel, impl: VscodeThemeImplementation): "light" | "dark" {
+    if (impl.themeType !== "auto") return impl.themeType;
+
+    const background = resolveColor(theme.toJsObject(), ["background.default"]);
+    return background && getContentColor(background) === "#FFFFFF" ? "dark" : "light";
+}
+
+// First candidate reaching MIN_SYNTAX_CONTRAST, else the first candidate made readable;
+// text.primary only when no candidate resolves
+function pickReadable(
+    colors: Record<string, Record<string, string>>,
+    candidates: string[],
+    background: string | undefined
+): string | undefined {
+    const values = candidates
+        .map((candidate) => resolveColor(colors, [candidate]))
+        .filter((value): value is string => Boolean(value));
+    if (values.length === 0) return resolveColor(colors, ["text.primary"]);
+    if (!background) return values[0];
+
+    const readable = values.find((value) => getContrastRatio(value, background) >= MIN_SYNTAX_CONTRAST);
+    return readable ?? toReadable(values[0], background);
+}
+
+// Move a color's lightness away from the background until it reaches MIN_SYNTAX_CONTRAST,
+// keeping its hue so token kinds stay distinguishable
+function toReadable(value: string, background: string): string {
+    const hsl = colorCodeConverter.rgbToHsl(colorCodeParser.parseToRgb(value)!);
+    const step = getContentColor(background) === "#FFFFFF" ? 5 : -5;
+    let result = value;
+
+    while (getContrastRatio(result, background) < MIN_SYNTAX_CONTRAST && hsl.l > 0 && hsl.l < 100) {
+        hsl.l = Math.min(100, Math.max(0, hsl.l + step));
+        result = colorCodeFormatter.formatHex(colorCodeConverter.rgbToHex(colorCodeConverter.hslToRgb(hsl)));
+    }
+
+    return result;
+}
+
+// First path holding a parsable color, as #RRGGBB or #RRGGBBAA when translucent
+function resolveColor(colors: Record<string, Record<string, string>>, paths: string[]): string | undefined {
+    for (const path of paths) {
+        const [group, key] = path.split(".");
+        const argb = colors[group]?.[key] ? toArgbHex(colors[group][key]) : null;
+        if (argb) {
+            const alpha = argb.slice(0, 2);
+            return `#${argb.slice(2)}${alpha === "FF" ? "" : alpha}`;
+        }
+    }
+    return undefined;
+}
+
+// Scale a resolved color's own alpha by a workbench alpha, so translucent colors stay translucent
+function withAlpha(value: string, alpha: string): string {
+    const own = value.length === 9 ? parseInt(value.slice(7), 16) : 255;
+    const combined = Math.round((own * parseInt(alpha, 16)) / 255);
+    return `${value.slice(0, 7)}${combined.toString(16).padStart(2, "0").toUpperCase()}`;
+}
+
+// WCAG 2 contrast ratio between two colors, ignoring alpha
+function getContrastRatio(foreground: string, background: string): number {
+    const toColor = (value: string): ColorModel => {
+        const rgb = colorCodeParser.parseToRgb(value);
+        return new ColorModel({ "unique-color-id": value, name: value, "color-codes": rgb ? { rgb: { values: rgb } } : {} });
+    };
+    return toColor(foreground).getContrastRatio(toColor(background));
+}
+
+function toJson(value: unknown, impl: VscodeThemeImplementation): string {
+    return impl.minify ? JSON.stringify(value) : JSON.stringify(value, null, 4) + "\n";
+}
+
+registerThemeCreator("vscode", createVscodeTheme, DEFAULT_VSCODE_THEME_IMPLEMENTATION);
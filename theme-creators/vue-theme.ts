@@ -1,3 +1,285 @@
 /** Application to take a color theme file and render as an Vue.js theme file(s) */
 
-// Import theme format file
+import { WebsiteThemeModel, websiteThemeRepository } from "../models/website-theme";
+import { createHeaderComment, createThemeFile, formatJsObject, formatTsInterface, registerThemeCreator, ThemeFile } from "../theme-generator";
+import type { VueThemeImplementation } from "../ts-theme-types/theme-file-index";
+
+// Default options for Vue theme generation
+export const DEFAULT_VUE_THEME_IMPLEMENTATION: VueThemeImplementation = {
+    format: "vue",
+    useTypeScript: true,
+    compositionApi: true,
+    generatePlugin: true,
+    generateComposable: true,
+    generateSfc: false,
+    vueVersion: "3"
+};
+
+/**
+ * Render a theme as light/dark theme objects with shared reactive state, an installable
+ * plugin, a useTheme() composable and an optional theme switcher component
+ *
+ * Vue 2 output targets 2.7, which ships ref/computed/watch and <script setup>.
+ */
+export function createVueTheme(theme: WebsiteThemeModel, impl: VueThemeImplementation): ThemeFile[] {
+    const ext = impl.useTypeScript ? "ts" : "js";
+    const mimeType = impl.useTypeScript ? "text/typescript" : "text/javascript";
+    const header = createHeaderComment(theme, "//");
+
+    const file = (name: string, lines: string[]): ThemeFile =>
+        createThemeFile(theme, `${name}.${ext}`, mimeType, [header, "", ...lines].join("\n") + "\n");
+
+    const files = [file("theme", createThemeModule(theme, impl))];
+
+    if (impl.generatePlugin || impl.generateComposable || impl.generateSfc) {
+        files.push(file("theme-state", createStateModule(impl)));
+    }
+    if (impl.generatePlugin) {
+        files.push(file("theme-plugin", createPlugin(impl)));
+    }
+    if (impl.generateComposable) {
+        files.push(file("use-theme", createComposable(impl)));
+    }
+    if (impl.generateSfc) {
+        const sfc = [createHeaderComment(theme, "html"), "", createSwitcherComponent(impl)].join("\n");
+        files.push(createThemeFile(theme, "ThemeSwitcher.vue", "text/x-vue", sfc + "\n"));
+    }
+
+    return files;
+}
+
+// Light and dark theme objects plus a helper that applies one as CSS custom properties
+function createThemeModule(theme: WebsiteThemeModel, impl: VueThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+    const light = theme.toJsObject();
+    const dark = websiteThemeRepository.createDarkVariant(theme).toJsObject();
+    const lines: string[] = [];
+
+    if (typed) {
+        lines.push(formatTsInterface("ThemeColors", light), "", `export type ThemeMode = "light" | "dark";`, "");
+    }
+
+    lines.push(
+        `export const lightTheme${typed ? ": ThemeColors" : ""} = ${formatJsObject(light)};`,
+        "",
+        `export const darkTheme${typed ? ": ThemeColors" : ""} = ${formatJsObject(dark)};`,
+        "",
+        `export const themes${typed ? ": Record<ThemeMode, ThemeColors>" : ""} = {`,
+        `  light: lightTheme,`,
+        `  dark: darkTheme,`,
+        `};`,
+        "",
+        `// Expose a theme as --theme-<group>-<key> custom properties`,
+        `export function applyThemeVariables(${typed
+            ? "theme: ThemeColors, root: HTMLElement): void"
+            : "theme, root)"} {`,
+        `  for (const [group, colors] of Object.entries(theme)) {`,
+        `    for (const [key, value] of Object.entries(colors${typed ? " as Record<string, string>" : ""})) {`,
+        `      root.style.setProperty(\`--theme-\${group}-\${key}\`, value);`,
+        `    }`,
+        `  }`,
+        `}`
+    );
+
+    return lines;
+}
+
+// Reactive mode shared by the plugin, composable and switcher component
+function createStateModule(impl: VueThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+
+    return [
+        `import { computed, ref, watch } from "vue";`,
+        ...(typed ? [`import type { ComputedRef, Ref } from "vue";`] : []),
+        `import { applyThemeVariables, themes } from "./theme";`,
+        ...(typed
+            ? [
+                `import type { ThemeColors, ThemeMode } from "./theme";`,
+                "",
+                `export interface ThemeState {`,
+                `  mode: Ref<ThemeMode>;`,
+                `  theme: ComputedRef<ThemeColors>;`,
+                `  setMode: (mode: ThemeMode) => void;`,
+                `  toggleMode: () => void;`,
+                `}`
+            ]
+            : []),
+        "",
+        `const mode = ref${typed ? "<ThemeMode>" : ""}("light");`,
+        `const theme = computed(() => themes[mode.value]);`,
+        "",
+        `export const themeState${typed ? ": ThemeState" : ""} = {`,
+        `  mode,`,
+        `  theme,`,
+        `  setMode: (next) => {`,
+        `    mode.value = next;`,
+        `  },`,
+        `  toggleMode: () => {`,
+        `    mode.value = mode.value === "light" ? "dark" : "light";`,
+        `  },`,
+        `};`,
+        "",
+        `// Keep the root element's custom properties and data-theme in sync with the active theme`,
+        `export function bindThemeVariables(${typed
+            ? "root: HTMLElement = document.documentElement): () => void"
+            : "root = document.documentElement)"} {`,
+        `  return watch(`,
+        `    theme,`,
+        `    (value) => {`,
+        `      applyThemeVariables(value, root);`,
+        `      root.dataset.theme = mode.value;`,
+        `    },`,
+        `    { immediate: true }`,
+        `  );`,
+        `}`
+    ];
+}
+
+// app.use(themePlugin) for Vue 3, Vue.use(themePlugin) for Vue 2
+function createPlugin(impl: VueThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+    const vue2 = impl.vueVersion === "2";
+    const lines = [
+        ...(typed ? [`import type { ${vue2 ? "VueConstructor" : "App"} } from "vue";`] : []),
+        `import { bindThemeVariables, themeState } from "./theme-state";`,
+        ...(typed
+            ? [
+                `import type { ThemeState } from "./theme-state";`,
+                `import type { ThemeMode } from "./theme";`,
+                "",
+                `export interface ThemePluginOptions {`,
+                `  defaultMode?: ThemeMode;`,
+                `  root?: HTMLElement;`,
+                `}`
+            ]
+            : []),
+        "",
+        `// ${vue2 ? "Vue.use" : "app.use"}(themePlugin, { defaultMode: "dark" })`,
+        `export const themePlugin = {`,
+        vue2
+            ? `  install(Vue${typed ? ": VueConstructor, options: ThemePluginOptions = {}): void" : ", options = {})"} {`
+            : `  install(app${typed ? ": App, options: ThemePluginOptions = {}): void" : ", options = {})"} {`,
+        `    if (options.defaultMode) {`,
+        `      themeState.setMode(options.defaultMode);`,
+        `    }`,
+        `    // There is no document to style during server-side rendering`,
+        `    if (typeof document !== "undefined") {`,
+        `      bindThemeVariables(options.root);`,
+        `    }`,
+        ...(vue2
+            ? [`    Vue.prototype.$theme = themeState;`]
+            : [`    app.provide("theme", themeState);`, `    app.config.globalProperties.$theme = themeState;`]),
+        `  },`,
+        `};`
+    ];
+
+    if (typed) {
+        lines.push(
+            "",
+            vue2 ? `declare module "vue/types/vue" {` : `declare module "vue" {`,
+            vue2 ? `  interface Vue {` : `  interface ComponentCustomProperties {`,
+            `    $theme: ThemeState;`,
+            `  }`,
+            `}`
+        );
+    }
+
+    return lines;
+}
+
+function createComposable(impl: VueThemeImplementation): string[] {
+    const typed = impl.useTypeScript;
+    const returnType = typed ? ": ThemeState" : "";
+
+    if (impl.generatePlugin) {
+        return [
+            `import { themeState } from "./theme-state";`,
+            ...(typed ? [`import type { ThemeState } from "./theme-state";`] : []),
+            "",
+            `export function useTheme()${returnType} {`,
+            `  return themeState;`,
+            `}`
+        ];
+    }
+
+    // Without the plugin the first caller starts syncing the CSS variables
+    return [
+        `import { bindThemeVariables, themeState } from "./theme-state";`,
+        ...(typed ? [`import type { ThemeState } from "./theme-state";`] : []),
+        "",
+        `let bound = false;`,
+        "",
+        `export function useTheme()${returnType} {`,
+        `  if (!bound && typeof document !== "undefined") {`,
+        `    bindThemeVariables();`,
+        `    bound = true;`,
+        `  }`,
+        `  return themeState;`,
+        `}`
+    ];
+}
+
+// Button that toggles light/dark, styled from the theme's own variables
+function createSwitcherComponent(impl: VueThemeImplementation): string {
+    const lang = impl.useTypeScript ? ` lang="ts"` : "";
+    const script = impl.compositionApi
+        ? [
+            `<script setup${lang}>`,
+            `import { computed } from "vue";`,
+            `import { themeState } from "./theme-state";`,
+            "",
+            `const { mode, toggleMode } = themeState;`,
+            `const label = computed(() => (mode.value === "light" ? "Dark mode" : "Light mode"));`,
+            `</script>`
+        ]
+        : [
+            `<script${lang}>`,
+            `import { defineComponent } from "vue";`,
+            `import { themeState } from "./theme-state";`,
+            "",
+            `export default defineComponent({`,
+            `  name: "ThemeSwitcher",`,
+            `  computed: {`,
+            `    mode()${impl.useTypeScript ? ": string" : ""} {`,
+            `      return themeState.mode.value;`,
+            `    },`,
+            `    label()${impl.useTypeScript ? ": string" : ""} {`,
+            `      return this.mode === "light" ? "Dark mode" : "Light mode";`,
+            `    },`,
+            `  },`,
+            `  methods: {`,
+            `    toggleMode()${impl.useTypeScript ? ": void" : ""} {`,
+            `      themeState.toggleMode();`,
+            `    },`,
+            `  },`,
+            `});`,
+            `</script>`
+        ];
+
+    return [
+        ...script,
+        "",
+        `<template>`,
+        `  <button type="button" class="theme-switcher" :aria-pressed="mode === 'dark'" @click="toggleMode">`,
+        `    {{ label }}`,
+        `  </button>`,
+        `</template>`,
+        "",
+        `<style scoped>`,
+        `.theme-switcher {`,
+        `  padding: 0.5rem 1rem;`,
+        `  border: 1px solid var(--theme-border-default, currentColor);`,
+        `  border-radius: 0.375rem;`,
+        `  background-color: var(--theme-primary-main);`,
+        `  color: var(--theme-primary-contrast);`,
+        `  cursor: pointer;`,
+        `}`,
+        "",
+        `.theme-switcher:hover {`,
+        `  background-color: var(--theme-primary-dark, var(--theme-primary-main));`,
+        `}`,
+        `</style>`
+    ].join("\n");
+}
+
+registerThemeCreator("vue", createVueTheme, DEFAULT_VUE_THEME_IMPLEMENTATION);
@@ -1,3 +1,227 @@
 /** Application to take a color theme file and render as an XML theme file(s) */
 
-// Import theme format file
+import * as path from "path";
+
+import { JsonMaker } from "../json-maker";
+import { WebsiteThemeModel } from "../models/website-theme";
+import { createHeaderLines, createThemeFile, registerThemeCreator, ThemeFile } from "../theme-generator";
+import type { XmlThemeImplementation } from "../ts-theme-types/theme-file-index";
+import { serializeXml, XmlElement, XmlWriteOptions } from "../xml-maker";
+
+// JSON schema the XSD is generated from
+const SCHEMA_DIR = path.join(__dirname, "..", "json-schema");
+const THEME_SCHEMA_FILE = "website-theme-schema.json";
+
+const XSD_NAMESPACE = "http://www.w3.org/2001/XMLSchema";
+const XSI_NAMESPACE = "http://www.w3.org/2001/XMLSchema-instance";
+
+// How each declared encoding is written to disk
+const FILE_ENCODINGS: Record<XmlThemeImplementation["encoding"], ThemeFile["encoding"]> = {
+    "UTF-8": "utf-8",
+    "UTF-16": "utf16le",
+    "ISO-8859-1": "latin1"
+};
+
+// Default options for XML theme generation
+export const DEFAULT_XML_THEME_IMPLEMENTATION: XmlThemeImplementation = {
+    format: "xml",
+    includeComments: true,
+    minify: false,
+    variablePrefix: "",
+    exportName: "theme",
+    prettyPrint: true,
+    indentSize: 4,
+    includeDeclaration: true,
+    encoding: "UTF-8",
+    rootElement: "theme",
+    useAttributes: false,
+    includeSchemaRef: true
+};
+
+/**
+ * The parts of a JSON schema property the XSD generator reads
+ */
+interface SchemaProperty {
+    type?: string;
+    description?: string;
+    properties?: Record<string, SchemaProperty>;
+    required?: string[];
+    pattern?: string;
+    $ref?: string;
+}
+
+interface ThemeSchema extends SchemaProperty {
+    $defs?: Record<string, SchemaProperty>;
+}
+
+/**
+ * Render a theme as an XML document, with color values either as child elements or as
+ * attributes, plus a matching XSD generated from website-theme-schema.json
+ *
+ * theme-name and theme-description become name and description on the root element.
+ */
+export function createXmlTheme(theme: WebsiteThemeModel, impl: XmlThemeImplementation): ThemeFile[] {
+    const options: XmlWriteOptions = {
+        prettyPrint: impl.prettyPrint && !impl.minify,
+        indentSize: impl.indentSize,
+        includeDeclaration: impl.includeDeclaration,
+        encoding: impl.encoding,
+        comments: impl.includeComments ? createHeaderLines(theme) : []
+    };
+    const xsdFilename = `${impl.exportName}.xsd`;
+
+    const root = createThemeElement(theme, impl);
+    if (impl.includeSchemaRef) {
+        root.attributes = {
+            ...root.attributes,
+            "xmlns:xsi": XSI_NAMESPACE,
+            "xsi:noNamespaceSchemaLocation": xsdFilename
+        };
+    }
+
+    const files = [createThemeFile(theme, `${impl.exportName}.xml`, "application/xml", serializeXml(root, options))];
+
+    if (impl.includeSchemaRef) {
+        const schema = new JsonMaker(SCHEMA_DIR).loadSchema(THEME_SCHEMA_FILE) as unknown as ThemeSchema;
+        const xsd = serializeXml(createXsd(schema, impl), { ...options, includeDeclaration: true });
+        files.push(createThemeFile(theme, xsdFilename, "application/xml", xsd));
+    }
+
+    return files.map((file) => ({ ...file, encoding: FILE_ENCODINGS[impl.encoding] }));
+}
+
+function createThemeElement(theme: WebsiteThemeModel, impl: XmlThemeImplementation): XmlElement {
+    const groups: XmlElement[] = Object.entries(theme.toJSON().colors).map(([group, values]) => {
+        const entries = Object.entries(values as Record<string, string>);
+        return impl.useAttributes
+            ? { name: group, attributes: Object.fromEntries(entries) }
+            : { name: group, children: entries.map(([key, value]) => ({ name: key, text: value })) };
+    });
+    const colors: XmlElement = { name: "colors", children: groups };
+
+    if (impl.useAttributes) {
+        return {
+            name: impl.rootElement,
+            attributes: { name: theme.themeName, description: theme.themeDescription },
+            children: [colors]
+        };
+    }
+
+    return {
+        name: impl.rootElement,
+        children: [
+            { name: "name", text: theme.themeName },
+            ...(theme.themeDescription ? [{ name: "description", text: theme.themeDescription }] : []),
+            colors
+        ]
+    };
+}
+
+// XSD mirroring the JSON schema: required keys become required elements/attributes
+function createXsd(schema: ThemeSchema, impl: XmlThemeImplementation): XmlElement {
+    const rootProperties = schema.properties ?? {};
+    const colorsSchema = rootProperties.colors ?? {};
+    const groups = Object.entries(colorsSchema.properties ?? {});
+
+    const simpleTypes = Object.entries(schema.$defs ?? {})
+        .filter(([, definition]) => definition.type === "string")
+        .map(([name, definition]) => ({
+            name: "xs:simpleType",
+            attributes: { name },
+            children: [
+                ...documentation(definition.description),
+                {
+                    name: "xs:restriction",
+                    attributes: { base: "xs:string" },
+                    // XSD patterns are implicitly anchored, so ^ and $ would be literal characters
+                    children: definition.pattern
+                        ? [{ name: "xs:pattern", attributes: { value: definition.pattern.replace(/^\^|\$$/g, "") } }]
+                        : []
+                }
+            ]
+        }));
+
+    const groupTypes = groups.map(([group, groupSchema]) => ({
+        name: "xs:complexType",
+        attributes: { name: `${group}Colors` },
+        children: [
+            ...documentation(groupSchema.description),
+            ...(impl.useAttributes
+                ? createFields(groupSchema, true)
+                : [{ name: "xs:all", children: createFields(groupSchema, false) }])
+        ]
+    }));
+
+    const colorsType: XmlElement = {
+        name: "xs:complexType",
+        attributes: { name: "themeColors" },
+        children: [
+            ...documentation(colorsSchema.description),
+            {
+                name: "xs:all",
+                children: groups.map(([group]) => ({
+                    name: "xs:element",
+                    attributes: {
+                        name: group,
+                        type: `${group}Colors`,
+                        minOccurs: colorsSchema.required?.includes(group) ? undefined : 0
+                    }
+                }))
+            }
+        ]
+    };
+
+    // theme-name/theme-description map to name/description, colors references themeColors
+    const rootFields: SchemaProperty = {
+        properties: Object.fromEntries(
+            Object.entries(rootProperties)
+                .filter(([key]) => key !== "colors")
+                .map(([key, property]) => [key.replace(/^theme-/, ""), property])
+        ),
+        required: (schema.required ?? []).map((key) => key.replace(/^theme-/, ""))
+    };
+    const colorsElement: XmlElement = { name: "xs:element", attributes: { name: "colors", type: "themeColors" } };
+    const rootType: XmlElement = impl.useAttributes
+        ? {
+            name: "xs:complexType",
+            children: [{ name: "xs:sequence", children: [colorsElement] }, ...createFields(rootFields, true)]
+        }
+        : {
+            name: "xs:complexType",
+            children: [{
+                name: "xs:sequence",
+                children: [...createFields(rootFields, false), colorsElement]
+            }]
+        };
+
+    return {
+        name: "xs:schema",
+        attributes: { "xmlns:xs": XSD_NAMESPACE, elementFormDefault: "qualified" },
+        children: [
+            ...documentation(schema.description),
+            { name: "xs:element", attributes: { name: impl.rootElement }, children: [rootType] },
+            colorsType,
+            ...groupTypes,
+            ...simpleTypes
+        ]
+    };
+}
+
+// Element or attribute declarations for each property of an object schema
+function createFields(schema: SchemaProperty, useAttributes: boolean): XmlElement[] {
+    return Object.entries(schema.properties ?? {}).map(([key, property]) => {
+        const type = property.$ref ? property.$ref.split("/").pop()! : `xs:${property.type ?? "string"}`;
+        const required = schema.required?.includes(key) ?? false;
+        return useAttributes
+            ? { name: "xs:attribute", attributes: { name: key, type, use: required ? "required" : undefined } }
+            : { name: "xs:element", attributes: { name: key, type, minOccurs: required ? undefined : 0 } };
+    });
+}
+
+function documentation(text: string | undefined): XmlElement[] {
+    return text
+        ? [{ name: "xs:annotation", children: [{ name: "xs:documentation", text }] }]
+        : [];
+}
+
+registerThemeCreator("xml", createXmlTheme, DEFAULT_XML_THEME_IMPLEMENTATION);
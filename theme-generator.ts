@@ -1,11 +1,93 @@
 // Application to generate themes based on color files, color theme collections and output in a variety of formats for different platforms
 
-import {  } from '.theme-creators/*.ts'
+import * as fs from "fs";
+import * as path from "path";
 
-interface ThemeFile {
+import { ColorModel } from "./models/color";
+import { colorCodeConverter, colorCodeParser } from "./models/color-code-format";
+import { WebsiteThemeModel, WebsiteThemeRepository, websiteThemeRepository } from "./models/website-theme";
+import type { ExportThemeFormat, ThemeExportFormatType } from "./ts-theme-types/export-theme-format";
+import type { AnyThemeFormat, AnyThemeImplementation } from "./ts-theme-types/theme-file-index";
+
+// Directory holding the theme creator modules
+const THEME_CREATORS_DIR = path.join(__dirname, "theme-creators");
+// Palettes that themes are built from
+const PALETTES_DIR = path.join(__dirname, "data", "palettes");
+
+// Compound extensions kept whole by getFileExtension
+const COMPOUND_EXTENSIONS = [".css.ts", ".tokens.json"];
+
+/**
+ * A single file produced by a theme creator
+ */
+export interface ThemeFile {
     themeName: string;
     filename: string;
+    /** Path relative to the output directory, including the filename */
     filepath: string;
+    mimeType: string;
+    content: string;
+    /** Encoding used when writing the file to disk, UTF-8 when omitted */
+    encoding?: "utf-8" | "latin1" | "utf16le";
+}
+
+/**
+ * Name and description shown in the header comment of generated files
+ */
+export interface ThemeHeader {
+    themeName: string;
+    themeDescription?: string;
+}
+
+/**
+ * Comment syntax for file headers: line comments, a CSS block comment or an HTML comment
+ */
+export type HeaderCommentStyle = "//" | "#" | "css" | "html";
+
+/**
+ * A color scheme parameter for native toolkits and the theme colors that can fill it
+ */
+export interface SchemeRole {
+    name: string;
+    /** Theme color paths in order of preference */
+    colors: string[];
+    /** Earlier role the color is drawn on; black or white is computed when no path resolves */
+    contentFor?: string;
+    /** Baseline for parameters the scheme requires when nothing else resolves */
+    baseline?: { light: string; dark: string };
+}
+
+/**
+ * A CSS-in-JS library's React bindings, used to build the provider and hook modules
+ */
+export interface CssInJsLibrary {
+    /** Package exporting ThemeProvider and useTheme */
+    packageName: string;
+    /** Local name for the library ThemeProvider */
+    providerAlias: string;
+    /** Local name for the library useTheme */
+    hookAlias: string;
+}
+
+/**
+ * Implementation options for a specific export format
+ */
+export type ThemeImplementationFor<F extends ThemeExportFormatType> = Extract<AnyThemeImplementation, { format: F }>;
+
+/**
+ * Function that renders a theme into one or more files
+ */
+export type ThemeCreator<T extends AnyThemeImplementation = AnyThemeImplementation> = (
+    theme: WebsiteThemeModel,
+    impl: T
+) => ThemeFile[];
+
+/**
+ * Registered creator with the implementation defaults used when options are omitted
+ */
+interface ThemeCreatorEntry<T extends AnyThemeImplementation = AnyThemeImplementation> {
+    create: ThemeCreator<T>;
+    defaults: T;
 }
 
 export enum ThemeExportFormat {
@@ -23,5 +105,610 @@ export enum ThemeExportFormat {
     EMOTION = "emotion",
     VANILLA = "vanilla",
     JSON = "json",
-    XML = "xml"
+    XML = "xml",
+    DTCG = "dtcg",
+    JS = "js",
+    TS = "ts",
+    ANDROID = "android",
+    IOS = "ios",
+    COMPOSE = "compose",
+    FLUTTER = "flutter",
+    VSCODE = "vscode",
+    TERMINAL = "terminal"
+}
+
+/**
+ * File and MIME metadata for each export format, matching the ExportThemeFormat types
+ */
+export const THEME_FORMAT_INFO: Record<ThemeExportFormat, Omit<ExportThemeFormat, "format" | "content">> = {
+    [ThemeExportFormat.REACT]: {
+        fileExtension: ".ts",
+        mimeType: "text/typescript",
+        displayName: "React",
+        description: "TypeScript theme object for React applications"
+    },
+    [ThemeExportFormat.CSS]: {
+        fileExtension: ".css",
+        mimeType: "text/css",
+        displayName: "CSS",
+        description: "CSS custom properties for standard CSS usage"
+    },
+    [ThemeExportFormat.SCSS]: {
+        fileExtension: ".scss",
+        mimeType: "text/x-scss",
+        displayName: "SCSS",
+        description: "SCSS variables for Sass-based projects"
+    },
+    [ThemeExportFormat.LESS]: {
+        fileExtension: ".less",
+        mimeType: "text/x-less",
+        displayName: "Less",
+        description: "Less variables for Less-based projects"
+    },
+    [ThemeExportFormat.VUE]: {
+        fileExtension: ".ts",
+        mimeType: "text/typescript",
+        displayName: "Vue",
+        description: "Theme configuration for Vue.js applications"
+    },
+    [ThemeExportFormat.ANGULAR]: {
+        fileExtension: ".ts",
+        mimeType: "text/typescript",
+        displayName: "Angular",
+        description: "Theme configuration for Angular applications"
+    },
+    [ThemeExportFormat.SVELTE]: {
+        fileExtension: ".ts",
+        mimeType: "text/typescript",
+        displayName: "Svelte",
+        description: "Theme configuration for Svelte applications"
+    },
+    [ThemeExportFormat.SOLID]: {
+        fileExtension: ".ts",
+        mimeType: "text/typescript",
+        displayName: "Solid",
+        description: "Theme configuration for SolidJS applications"
+    },
+    [ThemeExportFormat.STYLED_COMPONENTS]: {
+        fileExtension: ".ts",
+        mimeType: "text/typescript",
+        displayName: "Styled Components",
+        description: "Theme object for the styled-components library"
+    },
+    [ThemeExportFormat.TAILWIND]: {
+        fileExtension: ".ts",
+        mimeType: "text/typescript",
+        displayName: "Tailwind CSS",
+        description: "Theme configuration for Tailwind CSS"
+    },
+    [ThemeExportFormat.DAISYUI]: {
+        fileExtension: ".ts",
+        mimeType: "text/typescript",
+        displayName: "DaisyUI",
+        description: "Theme configuration for DaisyUI"
+    },
+    [ThemeExportFormat.EMOTION]: {
+        fileExtension: ".ts",
+        mimeType: "text/typescript",
+        displayName: "Emotion",
+        description: "Theme object for the Emotion CSS-in-JS library"
+    },
+    [ThemeExportFormat.VANILLA]: {
+        fileExtension: ".css.ts",
+        mimeType: "text/typescript",
+        displayName: "Vanilla Extract",
+        description: "Theme configuration for Vanilla Extract CSS"
+    },
+    [ThemeExportFormat.JSON]: {
+        fileExtension: ".json",
+        mimeType: "application/json",
+        displayName: "JSON",
+        description: "JSON data for portable theme configuration"
+    },
+    [ThemeExportFormat.XML]: {
+        fileExtension: ".xml",
+        mimeType: "application/xml",
+        displayName: "XML",
+        description: "XML data for portable theme configuration"
+    },
+    [ThemeExportFormat.DTCG]: {
+        fileExtension: ".tokens.json",
+        mimeType: "application/design-tokens+json",
+        displayName: "Design Tokens",
+        description: "W3C Design Tokens (DTCG) for Figma plugins and Style Dictionary"
+    },
+    [ThemeExportFormat.JS]: {
+        fileExtension: ".js",
+        mimeType: "text/javascript",
+        displayName: "JavaScript",
+        description: "ES module exporting the theme colors"
+    },
+    [ThemeExportFormat.TS]: {
+        fileExtension: ".ts",
+        mimeType: "text/typescript",
+        displayName: "TypeScript",
+        description: "TypeScript module exporting the theme colors with their interface"
+    },
+    [ThemeExportFormat.ANDROID]: {
+        fileExtension: ".xml",
+        mimeType: "application/xml",
+        displayName: "Android",
+        description: "Android color resources and Material Components theme"
+    },
+    [ThemeExportFormat.IOS]: {
+        fileExtension: ".swift",
+        mimeType: "text/x-swift",
+        displayName: "iOS",
+        description: "Xcode asset catalog colorsets and a SwiftUI Color extension"
+    },
+    [ThemeExportFormat.COMPOSE]: {
+        fileExtension: ".kt",
+        mimeType: "text/x-kotlin",
+        displayName: "Jetpack Compose",
+        description: "Kotlin Material color schemes and a Compose theme"
+    },
+    [ThemeExportFormat.FLUTTER]: {
+        fileExtension: ".dart",
+        mimeType: "application/dart",
+        displayName: "Flutter",
+        description: "Dart ColorScheme constants and ThemeData"
+    },
+    [ThemeExportFormat.VSCODE]: {
+        fileExtension: ".json",
+        mimeType: "application/json",
+        displayName: "VS Code",
+        description: "VS Code color theme with workbench colors and syntax highlighting"
+    },
+    [ThemeExportFormat.TERMINAL]: {
+        fileExtension: ".toml",
+        mimeType: "application/toml",
+        displayName: "Terminal",
+        description: "16-color ANSI schemes for Alacritty, Kitty, Windows Terminal and iTerm2"
+    }
+};
+
+/**
+ * Get the ThemeExportFormat for a format string, or undefined if unknown
+ */
+export function parseThemeExportFormat(value: string): ThemeExportFormat | undefined {
+    return Object.values(ThemeExportFormat).find((format) => format === value.toLowerCase());
+}
+
+/**
+ * Render a theme into an export format.
+ * Uses the registered theme creator when there is one and returns its main (first) file;
+ * use exportThemeFiles for formats whose creators emit several files. Returns null when
+ * the format cannot be produced.
+ */
+export function exportTheme(
+    theme: WebsiteThemeModel,
+    format: ThemeExportFormat,
+    repository: WebsiteThemeRepository = websiteThemeRepository
+): AnyThemeFormat | null {
+    const [file] = exportThemeFiles(theme, format, repository) ?? [];
+    if (!file) return null;
+
+    return {
+        format,
+        ...THEME_FORMAT_INFO[format],
+        fileExtension: getFileExtension(file.filename),
+        mimeType: file.mimeType,
+        content: file.content
+    } as AnyThemeFormat;
+}
+
+/**
+ * Render a theme into every file of an export format, main file first.
+ * Formats without a registered creator fall back to the theme repository exporters and
+ * produce a single file. Returns null when neither can produce the format.
+ */
+export function exportThemeFiles(
+    theme: WebsiteThemeModel,
+    format: ThemeExportFormat,
+    repository: WebsiteThemeRepository = websiteThemeRepository
+): ThemeFile[] | null {
+    const entry = getThemeCreator(format);
+    if (entry) {
+        const files = entry.create(theme, { ...entry.defaults });
+        return files.length > 0 ? files : null;
+    }
+
+    // JS and TS modules have no dedicated creator and come straight from the repository
+    let content: string;
+    switch (format) {
+        case ThemeExportFormat.JS:
+            content = repository.exportToJsModule(theme);
+            break;
+        case ThemeExportFormat.TS:
+            content = repository.exportToTsModule(theme);
+            break;
+        default:
+            return null;
+    }
+
+    const info = THEME_FORMAT_INFO[format];
+    return [createThemeFile(theme, `${toThemeSlug(theme.themeName)}${info.fileExtension}`, info.mimeType, content)];
+}
+
+// Registered theme creators keyed by export format
+const themeCreators = new Map<ThemeExportFormatType, ThemeCreatorEntry>();
+let themeCreatorsLoaded = false;
+
+/**
+ * Register a creator for an export format. Called by each module in theme-creators/.
+ */
+export function registerThemeCreator<F extends ThemeExportFormatType>(
+    format: F,
+    create: ThemeCreator<ThemeImplementationFor<F>>,
+    defaults: ThemeImplementationFor<F>
+): void {
+    themeCreators.set(format, { create, defaults } as unknown as ThemeCreatorEntry);
+}
+
+/**
+ * Load every module in theme-creators/ so each one can register itself
+ */
+export function loadThemeCreators(creatorsDir: string = THEME_CREATORS_DIR): void {
+    if (themeCreatorsLoaded) return;
+    themeCreatorsLoaded = true;
+
+    if (!fs.existsSync(creatorsDir)) return;
+
+    const files = fs.readdirSync(creatorsDir).filter(
+        (file) => /\.(ts|js)$/.test(file) && !file.endsWith(".d.ts")
+    );
+
+    for (const file of files) {
+        require(path.join(creatorsDir, file));
+    }
+}
+
+/**
+ * Get the registered creator for an export format
+ */
+export function getThemeCreator(format: ThemeExportFormatType): ThemeCreatorEntry | undefined {
+    loadThemeCreators();
+    return themeCreators.get(format);
+}
+
+/**
+ * List export formats that have a registered creator
+ */
+export function getRegisteredFormats(): ThemeExportFormatType[] {
+    loadThemeCreators();
+    return Array.from(themeCreators.keys());
+}
+
+/**
+ * Get the default implementation options for an export format
+ */
+export function getDefaultImplementation<F extends ThemeExportFormatType>(
+    format: F
+): ThemeImplementationFor<F> | undefined {
+    const entry = getThemeCreator(format);
+    return entry ? ({ ...entry.defaults } as ThemeImplementationFor<F>) : undefined;
+}
+
+/**
+ * Generate theme files for an implementation using its registered creator
+ */
+export function generateTheme(theme: WebsiteThemeModel, impl: AnyThemeImplementation): ThemeFile[] {
+    const entry = getThemeCreator(impl.format);
+    if (!entry) {
+        throw new Error(`No theme creator registered for format: ${impl.format}`);
+    }
+
+    return entry.create(theme, { ...entry.defaults, ...impl } as AnyThemeImplementation);
+}
+
+/**
+ * Build a ThemeFile for a theme, taking the filename from the relative path
+ */
+export function createThemeFile(
+    theme: WebsiteThemeModel,
+    filepath: string,
+    mimeType: string,
+    content: string
+): ThemeFile {
+    return {
+        themeName: theme.themeName,
+        filename: path.basename(filepath),
+        filepath,
+        mimeType,
+        content
+    };
+}
+
+/**
+ * Header lines for a generated file: the theme name, its description and the generator
+ */
+export function createHeaderLines(header: ThemeHeader): string[] {
+    const lines = [header.themeName];
+    if (header.themeDescription) {
+        lines.push(header.themeDescription);
+    }
+    lines.push("Generated by color-server");
+    return lines;
+}
+
+/**
+ * Header comment for a generated file in the comment syntax of its language
+ */
+export function createHeaderComment(header: ThemeHeader, style: HeaderCommentStyle = "//"): string {
+    const lines = createHeaderLines(header);
+
+    switch (style) {
+        case "css":
+            return [`/* ${lines[0]}`, ...lines.slice(1, -1).map((line) => ` * ${line}`), ` * ${lines[lines.length - 1]} */`].join("\n");
+        case "html":
+            return ["<!--", ...lines.map((line) => `  ${line}`), "-->"].join("\n");
+        default:
+            return lines.map((line) => `${style} ${line}`).join("\n");
+    }
+}
+
+/**
+ * Black or white content color for text drawn on a color, from ColorModel.getContrastColor.
+ * Unparseable colors get black.
+ */
+export function getContentColor(value: string): string {
+    const rgb = colorCodeParser.parseToRgb(value);
+    if (!rgb) return "#000000";
+
+    const color = new ColorModel({
+        "unique-color-id": value,
+        name: value,
+        "color-codes": { hsl: { values: colorCodeConverter.rgbToHsl(rgb) } }
+    });
+    return color.getContrastColor();
+}
+
+/**
+ * Get a color as "AARRGGBB", the alpha-first order of Android resources and Kotlin and Dart
+ * color literals. Keeps the alpha of 8-digit hex and rgba()/hsla() values; returns null for
+ * colors that cannot be parsed.
+ */
+export function toArgbHex(value: string): string | null {
+    const parsed = colorCodeParser.parseAuto(value);
+    const rgb = colorCodeParser.parseToRgb(value);
+    if (!parsed || !rgb) return null;
+
+    const { r1, r2, g1, g2, b1, b2 } = colorCodeConverter.rgbToHex(rgb);
+    let alpha = parsed.hex ? `${parsed.hex.a1}${parsed.hex.a2}` : "FF";
+
+    // rgba()/hsla() alpha is the fourth argument, as a fraction or a percentage
+    const alphaMatch = value.match(/,\s*([0-9.]+)(%?)\s*\)\s*$/);
+    if (!parsed.hex && alphaMatch && /^\s*(rgba|hsla)/i.test(value)) {
+        const fraction = parseFloat(alphaMatch[1]) / (alphaMatch[2] ? 100 : 1);
+        const byte = Math.round(Math.min(1, Math.max(0, fraction)) * 255);
+        alpha = byte.toString(16).padStart(2, "0");
+    }
+
+    return `${alpha}${r1}${r2}${g1}${g2}${b1}${b2}`.toUpperCase();
+}
+
+/**
+ * Convert a theme name to a file-safe slug ("Deep Sea" -> "deep-sea")
+ */
+export function toThemeSlug(name: string): string {
+    return name
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Join words as camelCase ("Deep Sea" -> "deepSea"). `leading` becomes the first word when
+ * the result would otherwise start with a digit.
+ */
+export function toCamelCase(parts: string[], leading?: string): string {
+    const camel = parts
+        .flatMap((part) => part.split(/[^A-Za-z0-9]+/))
+        .filter(Boolean)
+        .map((word, index) => index === 0
+            ? word.charAt(0).toLowerCase() + word.slice(1)
+            : word.charAt(0).toUpperCase() + word.slice(1))
+        .join("");
+    return leading && /^[0-9]/.test(camel) ? toCamelCase([leading, camel]) : camel;
+}
+
+/**
+ * Join words as PascalCase ("Deep Sea" -> "DeepSea"), with the same `leading` rule as toCamelCase
+ */
+export function toPascalCase(parts: string[], leading?: string): string {
+    const camel = toCamelCase(parts, leading);
+    return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+/**
+ * Map scheme roles to theme colors, in role order. Roles without a color fall back to the
+ * content color of the role they sit on, then to their baseline for the given brightness.
+ */
+export function resolveRoles(
+    colors: Record<string, Record<string, string>>,
+    roles: SchemeRole[],
+    brightness?: "light" | "dark"
+): Map<string, string> {
+    const resolved = new Map<string, string>();
+
+    for (const role of roles) {
+        const path = role.colors.find((candidate) => {
+            const [group, key] = candidate.split(".");
+            return colors[group]?.[key] && colorCodeParser.parseToRgb(colors[group][key]);
+        });
+        if (path) {
+            const [group, key] = path.split(".");
+            resolved.set(role.name, colors[group][key]);
+        } else if (role.contentFor && resolved.has(role.contentFor)) {
+            resolved.set(role.name, getContentColor(resolved.get(role.contentFor)!));
+        } else if (role.baseline && brightness) {
+            resolved.set(role.name, role.baseline[brightness]);
+        }
+    }
+
+    return resolved;
+}
+
+/**
+ * Light and dark CSS-in-JS theme objects with colors grouped by role, plus Theme and ThemeMode
+ * types when typed
+ */
+export function createCssInJsThemeModule(theme: WebsiteThemeModel, exportName: string, typed: boolean): string[] {
+    const light = { colors: theme.toJsObject() };
+    const dark = { colors: websiteThemeRepository.createDarkVariant(theme).toJsObject() };
+
+    const lines = [
+        `export const lightTheme = ${formatJsObject(light)};`,
+        "",
+        `export const darkTheme${typed ? ": Theme" : ""} = ${formatJsObject(dark)};`,
+        "",
+        `export const ${exportName} = lightTheme;`
+    ];
+
+    if (typed) {
+        lines.push("", `export type Theme = typeof lightTheme;`, `export type ThemeMode = "light" | "dark";`);
+    }
+
+    return lines;
+}
+
+/**
+ * ThemeProvider switching between the light and dark theme objects, rendering the global
+ * style component first when one is generated
+ */
+export function createCssInJsProvider(
+    library: CssInJsLibrary,
+    exportName: string,
+    typed: boolean,
+    globalStyle?: string
+): string[] {
+    const themeModule = `./${exportName}`;
+
+    return [
+        `import { ThemeProvider as ${library.providerAlias} } from "${library.packageName}";`,
+        ...(typed ? [`import type { ReactNode } from "react";`] : []),
+        `import { darkTheme, lightTheme } from "${themeModule}";`,
+        ...(typed ? [`import type { ThemeMode } from "${themeModule}";`] : []),
+        ...(globalStyle ? [`import { ${globalStyle} } from "./${globalStyle}";`] : []),
+        "",
+        ...(typed
+            ? [
+                `export interface ThemeProviderProps {`,
+                `  children: ReactNode;`,
+                `  mode?: ThemeMode;`,
+                `}`,
+                ""
+            ]
+            : []),
+        `export function ThemeProvider({ children, mode = "light" }${typed ? ": ThemeProviderProps" : ""}) {`,
+        `  return (`,
+        `    <${library.providerAlias} theme={mode === "dark" ? darkTheme : lightTheme}>`,
+        ...(globalStyle ? [`      <${globalStyle} />`] : []),
+        `      {children}`,
+        `    </${library.providerAlias}>`,
+        `  );`,
+        `}`
+    ];
+}
+
+/**
+ * useTheme wrapper over the library hook, narrowed to the generated Theme when `narrow` is set
+ */
+export function createCssInJsHook(library: CssInJsLibrary, exportName: string, narrow: boolean): string[] {
+    return [
+        `import { useTheme as ${library.hookAlias} } from "${library.packageName}";`,
+        ...(narrow ? [`import type { Theme } from "./${exportName}";`] : []),
+        "",
+        `export function useTheme()${narrow ? ": Theme" : ""} {`,
+        `  return ${library.hookAlias}()${narrow ? " as Theme" : ""};`,
+        `}`
+    ];
+}
+
+/**
+ * Find the palette file a theme was built from. Themes share their palette's slug,
+ * e.g. deep-sea-theme.json is built from deep-sea-palette.json.
+ */
+export function findSourcePaletteFile(theme: WebsiteThemeModel, palettesDir: string = PALETTES_DIR): string | undefined {
+    const filePath = path.join(palettesDir, `${toThemeSlug(theme.themeName)}-palette.json`);
+    return fs.existsSync(filePath) ? filePath : undefined;
+}
+
+/**
+ * Format a value as a JavaScript object literal, quoting only keys that are not identifiers
+ */
+export function formatJsObject(value: unknown, indentSize: number = 2, level: number = 0): string {
+    const pad = " ".repeat(indentSize * (level + 1));
+    const closePad = " ".repeat(indentSize * level);
+
+    if (Array.isArray(value)) {
+        if (value.length === 0) return "[]";
+        const items = value.map((item) => `${pad}${formatJsObject(item, indentSize, level + 1)}`);
+        return `[\n${items.join(",\n")}\n${closePad}]`;
+    }
+
+    if (typeof value === "object" && value !== null) {
+        const entries = Object.entries(value);
+        if (entries.length === 0) return "{}";
+        const lines = entries.map(
+            ([key, item]) => `${pad}${formatPropertyKey(key)}: ${formatJsObject(item, indentSize, level + 1)}`
+        );
+        return `{\n${lines.join(",\n")}\n${closePad}}`;
+    }
+
+    return JSON.stringify(value);
+}
+
+/**
+ * Format a TypeScript interface describing theme color groups, every color typed as a string
+ */
+export function formatTsInterface(
+    name: string,
+    colors: Record<string, Record<string, string>>,
+    indentSize: number = 2
+): string {
+    const pad = " ".repeat(indentSize);
+    const lines = [`export interface ${name} {`];
+
+    for (const [group, values] of Object.entries(colors)) {
+        lines.push(`${pad}${formatPropertyKey(group)}: {`);
+        for (const key of Object.keys(values)) {
+            lines.push(`${pad}${pad}${formatPropertyKey(key)}: string;`);
+        }
+        lines.push(`${pad}};`);
+    }
+
+    lines.push("}");
+    return lines.join("\n");
+}
+
+// Object keys stay bare when they are valid identifiers
+function formatPropertyKey(key: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Get the extension of a generated file, keeping compound extensions like ".css.ts"
+ */
+export function getFileExtension(filename: string): string {
+    return COMPOUND_EXTENSIONS.find((extension) => filename.endsWith(extension)) ?? path.extname(filename);
+}
+
+/**
+ * Write generated theme files below an output directory
+ */
+export function writeThemeFiles(files: ThemeFile[], outputDir: string): string[] {
+    const written: string[] = [];
+
+    for (const file of files) {
+        const outputPath = path.join(outputDir, file.filepath);
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        const encoding = file.encoding ?? "utf-8";
+        // UTF-16 files need a byte order mark for readers to detect the encoding
+        fs.writeFileSync(outputPath, encoding === "utf16le" ? `\uFEFF${file.content}` : file.content, encoding);
+        written.push(outputPath);
+    }
+
+    return written;
 }
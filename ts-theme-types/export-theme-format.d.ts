@@ -22,7 +22,16 @@ export type ThemeExportFormatType =
     | "emotion"
     | "vanilla"
     | "json"
-    | "xml";
+    | "xml"
+    | "dtcg"
+    | "js"
+    | "ts"
+    | "android"
+    | "ios"
+    | "compose"
+    | "flutter"
+    | "vscode"
+    | "terminal";
 
 /**
  * Base interface for all theme export formats.
@@ -20,6 +20,14 @@ import type { TailwindThemeFormat, TailwindThemeImplementation } from "./theme-f
 import type { DaisyuiThemeFormat, DaisyuiThemeImplementation } from "./theme-formats/daisyui-theme-format";
 import type { JsonThemeFormat, JsonThemeImplementation } from "./theme-formats/json-theme-format";
 import type { XmlThemeFormat, XmlThemeImplementation } from "./theme-formats/xml-theme-format";
+import type { DtcgThemeFormat, DtcgThemeImplementation } from "./theme-formats/dtcg-theme-format";
+import type { JsModuleThemeFormat, TsModuleThemeFormat } from "./theme-formats/module-theme-format";
+import type { AndroidThemeFormat, AndroidThemeImplementation } from "./theme-formats/android-theme-format";
+import type { IosThemeFormat, IosThemeImplementation } from "./theme-formats/ios-theme-format";
+import type { ComposeThemeFormat, ComposeThemeImplementation } from "./theme-formats/compose-theme-format";
+import type { FlutterThemeFormat, FlutterThemeImplementation } from "./theme-formats/flutter-theme-format";
+import type { VscodeThemeFormat, VscodeThemeImplementation } from "./theme-formats/vscode-theme-format";
+import type { TerminalThemeFormat, TerminalThemeImplementation } from "./theme-formats/terminal-theme-format";
 
 // Re-export base format
 export type { ExportThemeFormat, ThemeExportFormatType } from "./export-theme-format";
@@ -46,6 +54,18 @@ export type { DaisyuiThemeFormat, DaisyuiThemeImplementation } from "./theme-for
 // Re-export data formats
 export type { JsonThemeFormat, JsonThemeImplementation } from "./theme-formats/json-theme-format";
 export type { XmlThemeFormat , XmlThemeImplementation} from "./theme-formats/xml-theme-format";
+export type { DtcgThemeFormat, DtcgThemeImplementation } from "./theme-formats/dtcg-theme-format";
+export type { JsModuleThemeFormat, TsModuleThemeFormat } from "./theme-formats/module-theme-format";
+
+// Re-export mobile platform formats
+export type { AndroidThemeFormat, AndroidThemeImplementation } from "./theme-formats/android-theme-format";
+export type { IosThemeFormat, IosThemeImplementation } from "./theme-formats/ios-theme-format";
+export type { ComposeThemeFormat, ComposeThemeImplementation } from "./theme-formats/compose-theme-format";
+export type { FlutterThemeFormat, FlutterThemeImplementation } from "./theme-formats/flutter-theme-format";
+
+// Re-export editor and tool formats
+export type { VscodeThemeFormat, VscodeThemeImplementation } from "./theme-formats/vscode-theme-format";
+export type { TerminalEmulator, TerminalThemeFormat, TerminalThemeImplementation } from "./theme-formats/terminal-theme-format";
 
 /**
  * Union type of all theme export formats.
@@ -65,4 +85,40 @@ export type AnyThemeFormat =
     | TailwindThemeFormat
     | DaisyuiThemeFormat
     | JsonThemeFormat
-    | XmlThemeFormat;
+    | XmlThemeFormat
+    | DtcgThemeFormat
+    | JsModuleThemeFormat
+    | TsModuleThemeFormat
+    | AndroidThemeFormat
+    | IosThemeFormat
+    | ComposeThemeFormat
+    | FlutterThemeFormat
+    | VscodeThemeFormat
+    | TerminalThemeFormat;
+
+/**
+ * Union type of all theme implementation configurations.
+ */
+export type AnyThemeImplementation =
+    | ReactThemeImplementation
+    | VueThemeImplementation
+    | AngularThemeImplementation
+    | SvelteThemeImplementation
+    | SolidThemeImplementation
+    | CssThemeImplementation
+    | ScssThemeImplementation
+    | LessThemeImplementation
+    | StyledComponentsThemeImplementation
+    | EmotionThemeImplementation
+    | VanillaThemeImplementation
+    | TailwindThemeImplementation
+    | DaisyuiThemeImplementation
+    | JsonThemeImplementation
+    | XmlThemeImplementation
+    | DtcgThemeImplementation
+    | AndroidThemeImplementation
+    | IosThemeImplementation
+    | ComposeThemeImplementation
+    | FlutterThemeImplementation
+    | VscodeThemeImplementation
+    | TerminalThemeImplementation;
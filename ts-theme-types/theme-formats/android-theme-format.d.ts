@@ -0,0 +1,35 @@
+/**
+ * Android theme export format type definition.
+ * @module android-theme-format
+ */
+
+import type { ExportThemeFormat } from "../export-theme-format";
+import type { ThemeImplementation } from "../theme-implementation";
+
+/**
+ * Android resource export format.
+ * Generates colors.xml resources and a Material Components theme.
+ */
+export interface AndroidThemeFormat extends ExportThemeFormat<string> {
+    format: "android";
+    fileExtension: ".xml";
+    mimeType: "application/xml";
+}
+
+/**
+ * Implementation configuration for Android theme generation.
+ * variablePrefix is prepended to color resource names (e.g. "brand" -> brand_primary_main).
+ */
+export interface AndroidThemeImplementation extends ThemeImplementation {
+    format: "android";
+    /** Whether to generate res/values-night/colors.xml from the dark variant */
+    generateNightColors: boolean;
+    /** Whether to generate res/values/themes.xml mapping colors to theme attributes */
+    generateThemes: boolean;
+    /** Material Components generation the theme attributes target */
+    materialVersion: "2" | "3";
+    /** Theme style name; derived from the theme name (Theme.DeepSea) when empty */
+    themeStyleName: string;
+    /** Parent theme; the DayNight NoActionBar theme of materialVersion when empty */
+    parentTheme: string;
+}
@@ -0,0 +1,34 @@
+/**
+ * Jetpack Compose theme export format type definition.
+ * @module compose-theme-format
+ */
+
+import type { ExportThemeFormat } from "../export-theme-format";
+import type { ThemeImplementation } from "../theme-implementation";
+
+/**
+ * Jetpack Compose export format.
+ * Generates Kotlin color schemes and a MaterialTheme wrapper composable.
+ */
+export interface ComposeThemeFormat extends ExportThemeFormat<string> {
+    format: "compose";
+    fileExtension: ".kt";
+    mimeType: "text/x-kotlin";
+}
+
+/**
+ * Implementation configuration for Jetpack Compose theme generation.
+ * variablePrefix is prepended to the scheme names (e.g. "Brand" -> BrandLightColorScheme).
+ * exportName names the color scheme file (Color.kt).
+ */
+export interface ComposeThemeImplementation extends ThemeImplementation {
+    format: "compose";
+    /** Kotlin package the generated files declare */
+    packageName: string;
+    /** Material library the schemes target: lightColorScheme (3) or lightColors (2) */
+    materialVersion: "2" | "3";
+    /** Whether to generate a dark scheme from the dark variant */
+    includeDarkScheme: boolean;
+    /** Whether to generate Theme.kt with a composable wrapping MaterialTheme */
+    generateThemeComposable: boolean;
+}
@@ -0,0 +1,37 @@
+/**
+ * Design Tokens (DTCG) theme export format type definition.
+ * @module dtcg-theme-format
+ */
+
+import type { ExportThemeFormat } from "../export-theme-format";
+import type { ThemeImplementation } from "../theme-implementation";
+
+/**
+ * Design Tokens Community Group export format.
+ * Generates design token files for Figma plugins, Style Dictionary and other DTCG tools.
+ */
+export interface DtcgThemeFormat extends ExportThemeFormat<string> {
+    format: "dtcg";
+    fileExtension: ".tokens.json" | ".json";
+    mimeType: "application/design-tokens+json" | "application/json";
+}
+
+/**
+ * Implementation configuration for Design Tokens theme generation.
+ * variablePrefix names the top-level token group (e.g. "color").
+ */
+export interface DtcgThemeImplementation extends ThemeImplementation {
+    format: "dtcg";
+    /** Whether to write repeated values as alias references to the first token holding them */
+    useAliases: boolean;
+    /** Whether to include the source palette's colors as tokens that theme tokens alias */
+    includePalette: boolean;
+    /** Whether to carry group and theme descriptions into $description */
+    includeDescriptions: boolean;
+    /** Color $value as a hex string or as a DTCG color object */
+    colorFormat: "hex" | "object";
+    /** Whether to pretty print the JSON output */
+    prettyPrint: boolean;
+    /** Indentation spaces for pretty printing */
+    indentSize: 2 | 4;
+}
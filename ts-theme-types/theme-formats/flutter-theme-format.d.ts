@@ -0,0 +1,32 @@
+/**
+ * Flutter theme export format type definition.
+ * @module flutter-theme-format
+ */
+
+import type { ExportThemeFormat } from "../export-theme-format";
+import type { ThemeImplementation } from "../theme-implementation";
+
+/**
+ * Flutter export format.
+ * Generates a Dart file with ColorScheme constants and ThemeData.
+ */
+export interface FlutterThemeFormat extends ExportThemeFormat<string> {
+    format: "flutter";
+    fileExtension: ".dart";
+    mimeType: "application/dart";
+}
+
+/**
+ * Implementation configuration for Flutter theme generation.
+ * variablePrefix is prepended to the generated names (e.g. "brand" -> brandLightColorScheme).
+ * exportName names the Dart file (app_theme.dart).
+ */
+export interface FlutterThemeImplementation extends ThemeImplementation {
+    format: "flutter";
+    /** Whether to generate a dark scheme from the dark variant */
+    includeDarkScheme: boolean;
+    /** Whether to generate ThemeData built from the color schemes */
+    generateThemeData: boolean;
+    /** Value of ThemeData.useMaterial3 */
+    useMaterial3: boolean;
+}
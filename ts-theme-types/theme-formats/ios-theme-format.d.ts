@@ -0,0 +1,39 @@
+/**
+ * iOS theme export format type definition.
+ * @module ios-theme-format
+ */
+
+import type { ExportThemeFormat } from "../export-theme-format";
+import type { ThemeImplementation } from "../theme-implementation";
+
+/**
+ * iOS asset catalog export format.
+ * Generates .colorset entries in an Assets.xcassets tree and a SwiftUI Color extension.
+ */
+export interface IosThemeFormat extends ExportThemeFormat<string> {
+    format: "ios";
+    fileExtension: ".swift" | ".json";
+    mimeType: "text/x-swift" | "application/json";
+}
+
+/**
+ * Implementation configuration for iOS theme generation.
+ * variablePrefix is prepended to color asset names (e.g. "brand" -> brandPrimaryMain).
+ * exportName names the Swift file (Color+<exportName>.swift).
+ *
+ * The extension declares Color statics with the asset names, so turn off
+ * "Generate Swift Asset Symbol Extensions" in Xcode to avoid duplicate symbols.
+ */
+export interface IosThemeImplementation extends ThemeImplementation {
+    format: "ios";
+    /** Asset catalog directory name, without the .xcassets extension */
+    assetCatalogName: string;
+    /** Whether theme colorsets get a dark appearance from the dark variant */
+    includeDarkAppearance: boolean;
+    /** Whether to add the source palette's colors in a namespaced folder */
+    includePalette: boolean;
+    /** Whether to generate the Color+<exportName>.swift extension */
+    generateSwiftExtension: boolean;
+    /** sRGB components as 0-1 floats or 0-255 integers */
+    componentFormat: "float" | "integer";
+}
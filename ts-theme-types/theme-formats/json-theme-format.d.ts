@@ -33,4 +33,6 @@ export interface JsonThemeImplementation extends ThemeImplementation {
     flattenStructure: boolean;
     /** Whether to include metadata in output */
     includeMetadata: boolean;
+    /** Palette name recorded in the metadata; looked up in data/palettes when omitted */
+    sourcePalette?: string;
 }
@@ -0,0 +1,28 @@
+/**
+ * JavaScript and TypeScript module theme export format type definitions.
+ * @module module-theme-format
+ */
+
+import type { ExportThemeFormat } from "../export-theme-format";
+
+/**
+ * JavaScript module theme export format.
+ * Generates an ES module exporting the theme colors as a plain object.
+ * Rendered by WebsiteThemeRepository.exportToJsModule, so it has no implementation options.
+ */
+export interface JsModuleThemeFormat extends ExportThemeFormat<string> {
+    format: "js";
+    fileExtension: ".js";
+    mimeType: "text/javascript";
+}
+
+/**
+ * TypeScript module theme export format.
+ * Generates a TypeScript module exporting the theme colors with a colors interface.
+ * Rendered by WebsiteThemeRepository.exportToTsModule, so it has no implementation options.
+ */
+export interface TsModuleThemeFormat extends ExportThemeFormat<string> {
+    format: "ts";
+    fileExtension: ".ts";
+    mimeType: "text/typescript";
+}
@@ -26,7 +26,7 @@ export interface ReactThemeImplementation {
     useJsx: boolean;
     /** Whether to export as default or named export */
     defaultExport: boolean;
-    /** Whether to include TypeScript type annotations */
+    /** Whether to include TypeScript type annotations; without them the files are emitted as JavaScript */
     includeTypes: boolean;
     /** Whether to generate a ThemeProvider wrapper component */
     generateProvider: boolean;
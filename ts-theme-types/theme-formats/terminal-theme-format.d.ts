@@ -0,0 +1,37 @@
+/**
+ * Terminal emulator theme export format type definition.
+ * @module terminal-theme-format
+ */
+
+import type { ExportThemeFormat } from "../export-theme-format";
+import type { ThemeImplementation } from "../theme-implementation";
+
+/**
+ * Terminal emulators a 16-color ANSI scheme can be written for.
+ */
+export type TerminalEmulator = "alacritty" | "kitty" | "windows-terminal" | "iterm2";
+
+/**
+ * Terminal emulator export format.
+ * Generates Alacritty TOML, Kitty .conf, Windows Terminal JSON and iTerm2 .itermcolors schemes.
+ */
+export interface TerminalThemeFormat extends ExportThemeFormat<string> {
+    format: "terminal";
+    fileExtension: ".toml" | ".conf" | ".json" | ".itermcolors";
+    mimeType: "application/toml" | "text/plain" | "application/json" | "application/x-plist";
+}
+
+/**
+ * Implementation configuration for terminal theme generation.
+ * exportName is the scheme file base name; the theme name's slug is used when empty.
+ * variablePrefix is not used.
+ */
+export interface TerminalThemeImplementation extends ThemeImplementation {
+    format: "terminal";
+    /** Emulators to write schemes for; the first is the main file */
+    terminals: TerminalEmulator[];
+    /** Whether background and foreground come from the theme's dark variant */
+    useDarkVariant: boolean;
+    /** Lightness added to the normal colors to derive the bright ones */
+    brightAmount: number;
+}
@@ -0,0 +1,34 @@
+/**
+ * VS Code theme export format type definition.
+ * @module vscode-theme-format
+ */
+
+import type { ExportThemeFormat } from "../export-theme-format";
+import type { ThemeImplementation } from "../theme-implementation";
+
+/**
+ * VS Code color theme export format.
+ * Generates *-color-theme.json files with workbench colors and syntax tokenColors.
+ */
+export interface VscodeThemeFormat extends ExportThemeFormat<string> {
+    format: "vscode";
+    fileExtension: ".json";
+    mimeType: "application/json";
+}
+
+/**
+ * Implementation configuration for VS Code theme generation.
+ * exportName is the theme file base name (<exportName>-color-theme.json); the theme
+ * name's slug is used when empty. variablePrefix is not used.
+ */
+export interface VscodeThemeImplementation extends ThemeImplementation {
+    format: "vscode";
+    /** Theme type; "auto" picks light or dark from background.default */
+    themeType: "auto" | "light" | "dark";
+    /** Whether to add a second theme from the dark variant */
+    generateDarkVariant: boolean;
+    /** Whether to generate an extension package.json contributing the themes */
+    generateExtensionManifest: boolean;
+    /** Whether comments are rendered in italics */
+    italicComments: boolean;
+}
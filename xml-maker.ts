@@ -0,0 +1,178 @@
+/**
+ * XML Maker - A utility for writing XML documents
+ * Provides functionality to:
+ * - Build documents from a plain element tree
+ * - Escape text and attribute values
+ * - Serialize with an optional declaration, document type, comments and pretty printing
+ * - Write XML files to disk
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * A single XML element; text and children are mutually exclusive
+ */
+export interface XmlElement {
+    name: string;
+    attributes?: Record<string, string | number | boolean | undefined>;
+    children?: XmlElement[];
+    text?: string;
+}
+
+export type XmlEncoding = "UTF-8" | "UTF-16" | "ISO-8859-1";
+
+export interface XmlWriteOptions {
+    prettyPrint?: boolean;
+    indentSize?: number;
+    includeDeclaration?: boolean;
+    encoding?: XmlEncoding;
+    /** Document type declaration written after the XML declaration, e.g. <!DOCTYPE plist ...> */
+    doctype?: string;
+    /** Comment lines written ahead of the root element */
+    comments?: string[];
+}
+
+// Names must start with a letter or underscore; namespace prefixes are allowed
+const XML_NAME_PATTERN = /^[A-Za-z_][\w.:-]*$/;
+
+/**
+ * XML Maker class for serializing element trees
+ */
+export class XmlMaker {
+    /**
+     * Escape character data for use between tags
+     */
+    escapeText(value: string, encoding: XmlEncoding = "UTF-8"): string {
+        return this.escapeUnencodable(
+            this.stripInvalidChars(value).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;"),
+            encoding
+        );
+    }
+
+    /**
+     * Escape a value for use inside a double-quoted attribute
+     */
+    escapeAttribute(value: string, encoding: XmlEncoding = "UTF-8"): string {
+        return this.escapeText(value, encoding)
+            .replace(/"/g, "&quot;")
+            .replace(/\t/g, "&#9;")
+            .replace(/\n/g, "&#10;")
+            .replace(/\r/g, "&#13;");
+    }
+
+    /**
+     * Serialize an element tree into an XML document
+     */
+    serialize(root: XmlElement, options: XmlWriteOptions = {}): string {
+        const {
+            prettyPrint = true,
+            indentSize = 2,
+            includeDeclaration = true,
+            encoding = "UTF-8",
+            doctype,
+            comments = []
+        } = options;
+        const newline = prettyPrint ? "\n" : "";
+        const parts: string[] = [];
+
+        if (includeDeclaration) {
+            parts.push(`<?xml version="1.0" encoding="${encoding}"?>`);
+        }
+        if (doctype) {
+            parts.push(doctype);
+        }
+        if (comments.length > 0) {
+            parts.push(this.formatComment(comments, prettyPrint ? indentSize : 0, encoding));
+        }
+        parts.push(this.serializeElement(root, prettyPrint ? indentSize : 0, 0, encoding));
+
+        return parts.join(newline) + newline;
+    }
+
+    /**
+     * Serialize an element tree and write it to a file
+     */
+    writeXml(root: XmlElement, outputPath: string, options?: XmlWriteOptions): void {
+        const dir = path.dirname(outputPath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        fs.writeFileSync(outputPath, this.serialize(root, options), "utf-8");
+    }
+
+    private serializeElement(element: XmlElement, indentSize: number, level: number, encoding: XmlEncoding): string {
+        this.assertName(element.name);
+
+        const pad = " ".repeat(indentSize * level);
+        const attributes = Object.entries(element.attributes ?? {})
+            .filter(([, value]) => value !== undefined)
+            .map(([name, value]) => {
+                this.assertName(name);
+                return ` ${name}="${this.escapeAttribute(String(value), encoding)}"`;
+            })
+            .join("");
+        const open = `${pad}<${element.name}${attributes}`;
+
+        if (element.children && element.children.length > 0) {
+            const newline = indentSize > 0 ? "\n" : "";
+            const children = element.children.map((child) =>
+                this.serializeElement(child, indentSize, level + 1, encoding)
+            );
+            return `${open}>${newline}${children.join(newline)}${newline}${pad}</${element.name}>`;
+        }
+
+        if (element.text !== undefined && element.text !== "") {
+            return `${open}>${this.escapeText(element.text, encoding)}</${element.name}>`;
+        }
+
+        return `${open}/>`;
+    }
+
+    private formatComment(lines: string[], indentSize: number, encoding: XmlEncoding): string {
+        // "--" is not allowed inside a comment, and comments cannot hold character references
+        const safe = lines.map((line) => {
+            const text = this.stripInvalidChars(line).replace(/-(?=-)/g, "- ");
+            return encoding === "UTF-8" ? text : text.replace(/[^\x00-\x7F]/gu, "?");
+        });
+        if (indentSize === 0) {
+            return `<!-- ${safe.join(" ")} -->`;
+        }
+        const pad = " ".repeat(indentSize);
+        return ["<!--", ...safe.map((line) => `${pad}${line}`), "-->"].join("\n");
+    }
+
+    private assertName(name: string): void {
+        if (!XML_NAME_PATTERN.test(name)) {
+            throw new Error(`Invalid XML name: ${name}`);
+        }
+    }
+
+    // Control characters other than tab, newline and carriage return cannot appear in XML 1.0
+    private stripInvalidChars(value: string): string {
+        return value.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "");
+    }
+
+    // Outside UTF-8 the output is kept ASCII, so it reads the same whichever encoding the bytes end up in
+    private escapeUnencodable(value: string, encoding: XmlEncoding): string {
+        if (encoding === "UTF-8") return value;
+        return value.replace(/[^\x00-\x7F]/gu, (char) => `&#${char.codePointAt(0)};`);
+    }
+}
+
+// Export a default instance
+export const xmlMaker = new XmlMaker();
+
+// Export utility functions for convenience
+export function serializeXml(root: XmlElement, options?: XmlWriteOptions): string {
+    return xmlMaker.serialize(root, options);
+}
+
+export function writeXml(root: XmlElement, outputPath: string, options?: XmlWriteOptions): void {
+    xmlMaker.writeXml(root, outputPath, options);
+}
+
+export function escapeXml(value: string): string {
+    return xmlMaker.escapeAttribute(value);
+}